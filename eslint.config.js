@@ -24,5 +24,11 @@ export default tseslint.config(
         { allowConstantExport: true },
       ],
     },
+  },
+  {
+    files: ['src/offline/serviceWorker.ts'],
+    languageOptions: {
+      globals: globals.serviceworker,
+    },
   }
 );
@@ -0,0 +1,53 @@
+import type { Plugin } from 'vite';
+
+interface PrecacheOptions {
+  /** Source of the service worker; `__PRECACHE_MANIFEST__` in it is replaced with the cache name and URLs. */
+  worker: string;
+  /** Data whose local URLs (strings starting with a single `/`) are precached, such as the exhibition manifest. */
+  manifest: unknown;
+  /** Further files under `public/` to precache. */
+  include?: string[];
+}
+
+const WORKER_FILE_NAME = 'sw.js';
+const PLACEHOLDER = '__PRECACHE_MANIFEST__';
+
+function collectLocalUrls(value: unknown, urls: Set<string>) {
+  if (typeof value === 'string') {
+    if (value.startsWith('/') && !value.startsWith('//')) urls.add(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectLocalUrls(item, urls);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectLocalUrls(item, urls);
+  }
+}
+
+/**
+ * Builds the service worker as `/sw.js` alongside the app, with the list of
+ * everything to precache written into it: the built scripts, styles and
+ * bundled files, the page itself and every local file the manifest refers to.
+ * Only production builds get a worker; the dev server keeps loading from disk.
+ */
+export function precacheServiceWorker({ worker, manifest, include = [] }: PrecacheOptions): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: worker, fileName: WORKER_FILE_NAME });
+    },
+    generateBundle(_options, bundle) {
+      const urls = new Set(['/', '/index.html', ...include]);
+      collectLocalUrls(manifest, urls);
+      for (const fileName of Object.keys(bundle)) {
+        if (fileName !== WORKER_FILE_NAME && !fileName.endsWith('.html')) urls.add(`/${fileName}`);
+      }
+
+      const chunk = bundle[WORKER_FILE_NAME];
+      if (chunk?.type !== 'chunk') return this.error(`The service worker ${worker} was not built`);
+
+      // A new cache for every build, so visitors never mix files from two versions
+      const precache = { cacheName: `ita-museum-${Date.now().toString(36)}`, urls: [...urls].sort() };
+      chunk.code = chunk.code.replace(PLACEHOLDER, JSON.stringify(precache));
+    }
+  };
+}
@@ -1,17 +1,190 @@
 import { Canvas } from '@react-three/fiber';
 import { Museum } from './components/Museum';
-import { Controls } from './components/Controls';
-import { useEffect, useState } from 'react';
-import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp } from 'lucide-react';
+import { EditorToolbar } from './components/EditorToolbar';
+import { Minimap } from './components/Minimap';
+import { TourPanel } from './components/TourPanel';
+import { TouchControls } from './components/TouchControls';
+import { InputSettings } from './components/InputSettings';
+import { AudioControls } from './components/AudioControls';
+import { TuningPresetsPanel } from './components/TuningPresetsPanel';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Leva, useControls } from 'leva';
+import { AlertTriangle, Keyboard, Languages, Route } from 'lucide-react';
+import {
+  ExhibitionManifestError,
+  loadExhibition,
+  localizeExhibition,
+  type Exhibition,
+  type TourDefinition,
+  type TourStopDefinition
+} from './exhibition';
+import {
+  applyLayoutChange,
+  exportLayout,
+  importLayout,
+  useHistory,
+  type EditorSettings,
+  type LayoutChange
+} from './editor';
+import {
+  createNavGrid,
+  getRouteTarget,
+  getTeleportTarget,
+  getViewingTarget,
+  type ExhibitMarker,
+  type NavigationEndReason,
+  type NavigationTarget,
+  type VisitorPose
+} from './navigation';
+import { useTour } from './tour';
+import { useDebugMode, useDebugShortcut } from './debug';
+import { getKioskSettings, useAttractLoop, useIdleTimer, useKioskLockdown, watchActivity } from './kiosk';
+import { audioMixer } from './audio';
+import { assetManager, getExhibitionAssets, useAssetProgress } from './assets';
+import {
+  inputBindings,
+  useGamepadConnected,
+  useInputBindings,
+  useTouchDevice,
+  type InputBindings,
+  type MoveInput
+} from './input';
+import { LOCALES, getFallbackChain, useTranslation, type MessageKey, type Translate } from './i18n';
+
+type ExhibitionLoadResult =
+  | { exhibition: Exhibition; issues: null }
+  | { exhibition: null; issues: string[] };
+
+const getDesktopInstructions = (bindings: InputBindings, t: Translate, isKiosk: boolean) => {
+  const label = inputBindings.getLabel;
+  const instructions = [
+    [t('action.move'), [bindings.moveForward, bindings.strafeLeft, bindings.moveBackward, bindings.strafeRight].map(label).join('')],
+    [t('action.look'), t('input.mouse')],
+    [t('action.inspect'), label(bindings.inspect)],
+    [t('action.teleport'), t('input.clickFloor')],
+    [t('action.floorPlan'), label(bindings.floorPlan)]
+  ];
+  // A kiosk does not point visitors to the way out of the museum
+  return isKiosk ? instructions : [...instructions, [t('action.exitControl'), 'ESC']];
+};
+
+function HudKey({ code, isActive }: { code: string; isActive: boolean }) {
+  return (
+    <div
+      className={`w-8 h-8 rounded-lg flex items-center justify-center font-bold ${
+        isActive ? 'bg-black text-white' : 'bg-black/20 text-black'
+      } transition-colors duration-100`}
+    >
+      {inputBindings.getLabel(code)}
+    </div>
+  );
+}
+
+const GAMEPAD_PROMPTS: [string, MessageKey, string][] = [
+  ['L', 'action.walk', 'bg-gray-700'],
+  ['R', 'action.look', 'bg-gray-700'],
+  ['A', 'action.inspect', 'bg-green-600'],
+  ['B', 'action.back', 'bg-red-600']
+];
+
+const TOUCH_INSTRUCTIONS: [MessageKey, MessageKey][] = [
+  ['action.move', 'input.joystick'],
+  ['action.look', 'input.drag'],
+  ['action.teleport', 'input.tapFloor'],
+  ['action.inspect', 'input.tapExhibit'],
+  ['action.zoom', 'input.pinch']
+];
+
+function readExhibition(): ExhibitionLoadResult {
+  try {
+    return { exhibition: loadExhibition(), issues: null };
+  } catch (error) {
+    if (error instanceof ExhibitionManifestError) {
+      console.error(error.message);
+      return { exhibition: null, issues: error.issues };
+    }
+    throw error;
+  }
+}
 
 function App() {
+  const [{ exhibition: loadedExhibition, issues }] = useState(readExhibition);
+  const layout = useHistory(loadedExhibition);
+  const exhibition = layout.state;
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>({ mode: 'translate', snap: true });
+  const [importIssues, setImportIssues] = useState<string[] | null>(null);
+  const [kiosk] = useState(() => loadedExhibition && getKioskSettings(loadedExhibition.kiosk));
+  const isKiosk = kiosk?.enabled ?? false;
+  // The control panel and the layout editor are for staff, in debug mode, and
+  // never offered on a kiosk, whatever the URL or keyboard asks for
+  const isDebug = useDebugMode() && !isKiosk;
+  const controls = useControls({ selectionMode: false });
+  const selectionMode = controls.selectionMode && isDebug;
+  const visitorPose = useRef<VisitorPose>({ x: 0, z: 0, heading: 0 });
+  const [visitedIds, setVisitedIds] = useState(() => new Set<string>());
+  const [navigationTarget, setNavigationTarget] = useState<NavigationTarget | null>(null);
+  // Title of an exhibit picked on the map that the visitor cannot walk to
+  const [unreachableTitle, setUnreachableTitle] = useState<string | null>(null);
+  const navGrid = useMemo(() => exhibition && createNavGrid(exhibition), [exhibition]);
+  const { locale, t, setLocale } = useTranslation();
+  // Visitors see the text in their language; the editor keeps working on the manifest as written
+  const localizedExhibition = useMemo(
+    () => exhibition && localizeExhibition(exhibition, getFallbackChain(locale)),
+    [exhibition, locale]
+  );
   const [showInstructions, setShowInstructions] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [hasStarted, setHasStarted] = useState(false);
+  const [isAttracting, setIsAttracting] = useState(false);
   const [showTransition, setShowTransition] = useState(false);
   const [showFadeFromWhite, setShowFadeFromWhite] = useState(false);
   const [activeKeys, setActiveKeys] = useState(new Set<string>());
   const [isInteracting, setIsInteracting] = useState(false);
+  const isTouchDevice = useTouchDevice();
+  const gamepadConnected = useGamepadConnected();
+  const bindings = useInputBindings();
+  const [showInputSettings, setShowInputSettings] = useState(false);
+  const moveInput = useRef<MoveInput>({ x: 0, y: 0 });
+  const pendingTour = useRef<TourDefinition>();
+  const assetProgress = useAssetProgress();
+  const settledAssets = assetProgress.loaded + assetProgress.failures.length;
+  const loadingPercent = assetProgress.total > 0 ? Math.round((settledAssets / assetProgress.total) * 100) : 100;
+  const isPreloaded = settledAssets === assetProgress.total;
+
+  const handleTourTravel = useCallback((stop: TourStopDefinition) => {
+    if (!navGrid) return;
+    setNavigationTarget(getRouteTarget(navGrid, visitorPose.current, stop.position, stop.lookAt));
+  }, [navGrid]);
+  const handleTourHalt = useCallback(() => setNavigationTarget(null), []);
+  const guidedTour = useTour({ onTravel: handleTourTravel, onHalt: handleTourHalt });
+  const { pause: pauseTour, arrive: arriveAtTourStop, end: endTour } = guidedTour;
+
+  const handleAttractTravel = useCallback((target: NavigationTarget) => setNavigationTarget(target), []);
+  const { arrive: arriveAtAttractStop } = useAttractLoop({
+    isActive: isAttracting,
+    exhibition,
+    navGrid,
+    visitorPose,
+    onTravel: handleAttractTravel,
+    onHalt: handleTourHalt
+  });
+
+  // Rebinding needs the cursor, and the visitor should stand still meanwhile
+  const openInputSettings = () => {
+    document.exitPointerLock?.();
+    setShowInputSettings(true);
+    setIsInteracting(true);
+  };
+
+  const closeInputSettings = () => {
+    setShowInputSettings(false);
+    setIsInteracting(false);
+  };
+
+  // Inspecting an exhibit or opening the floor plan takes over from the tour
+  useEffect(() => {
+    if (isInteracting) pauseTour();
+  }, [isInteracting, pauseTour]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -37,6 +210,11 @@ function App() {
     };
   }, [isInteracting]);
 
+  // Layout edits and imports can bring new artwork; assets already loaded are not fetched again
+  useEffect(() => {
+    if (exhibition) assetManager.preload(getExhibitionAssets(exhibition));
+  }, [exhibition]);
+
   useEffect(() => {
     if (hasStarted) {
       const timer = setTimeout(() => {
@@ -47,45 +225,334 @@ function App() {
     }
   }, [hasStarted]);
 
+  const { set: setLayout } = layout;
+  const handleLayoutChange = useCallback((id: string, change: LayoutChange) => {
+    setLayout(current => current && applyLayoutChange(current, id, change));
+  }, [setLayout]);
+
+  const handleVisit = useCallback((id: string) => {
+    setVisitedIds(prev => (prev.has(id) ? prev : new Set(prev).add(id)));
+  }, []);
+
+  const handleNavigate = useCallback((marker: ExhibitMarker) => {
+    if (!navGrid) return;
+    const target = getViewingTarget(navGrid, marker, visitorPose.current);
+    if (target) {
+      pauseTour();
+      setNavigationTarget(target);
+    } else {
+      setUnreachableTitle(marker.title);
+    }
+  }, [navGrid, pauseTour]);
+
+  useEffect(() => {
+    if (!unreachableTitle) return;
+    const timer = setTimeout(() => setUnreachableTitle(null), 3000);
+    return () => clearTimeout(timer);
+  }, [unreachableTitle]);
+
+  const handleFloorClick = useCallback((x: number, y: number, z: number) => {
+    const target = navGrid && getTeleportTarget(navGrid, x, y, z);
+    if (target) {
+      pauseTour();
+      setNavigationTarget(target);
+    }
+  }, [navGrid, pauseTour]);
+
+  const handleNavigationEnd = useCallback((reason: NavigationEndReason) => {
+    setNavigationTarget(null);
+    // A tour stop that cannot be reached all the way is presented from where the visitor got stuck
+    if (reason !== 'interrupted') {
+      arriveAtTourStop();
+      arriveAtAttractStop();
+    }
+  }, [arriveAtTourStop, arriveAtAttractStop]);
+
+  const enterMuseum = (tour?: TourDefinition) => {
+    // Still inside the click, so the browser lets the museum's audio start
+    audioMixer.unlock();
+    pendingTour.current = tour;
+    setShowTransition(true);
+  };
+
+  // Once the fade to white has covered the landing screen
+  const finishEntering = () => {
+    setIsLoading(false);
+    setHasStarted(true);
+    setShowFadeFromWhite(true);
+    if (pendingTour.current) {
+      guidedTour.start(pendingTour.current);
+    }
+  };
+
+  // Unmounting the museum also puts back the camera, any exhibit being inspected
+  // and the editor's selection, so the next visitor starts from the beginning
+  const returnToLanding = useCallback(() => {
+    document.exitPointerLock?.();
+    endTour();
+    setNavigationTarget(null);
+    setIsInteracting(false);
+    setShowInputSettings(false);
+    setVisitedIds(new Set());
+    setShowInstructions(true);
+    setShowTransition(false);
+    setShowFadeFromWhite(false);
+    setHasStarted(false);
+    setIsAttracting(false);
+    setIsLoading(true);
+  }, [endTour]);
+
+  const startAttracting = useCallback(() => {
+    setIsAttracting(true);
+    setIsLoading(false);
+  }, []);
+
+  useKioskLockdown(isKiosk);
+  useDebugShortcut(!isKiosk);
+
+  // A guided tour runs without input, so it does not count as idle
+  const isTourPlaying = !!guidedTour.state && !guidedTour.state.isPaused;
+  useIdleTimer(
+    kiosk?.enabled && isLoading && isPreloaded && !showTransition ? kiosk.attractDelay : null,
+    startAttracting
+  );
+  useIdleTimer(kiosk?.enabled && !isLoading && !isAttracting && !isTourPlaying ? kiosk.idleTimeout : null, returnToLanding);
+
+  // Any input during the attract loop brings back the landing screen
+  useEffect(() => {
+    if (isAttracting) return watchActivity(returnToLanding);
+  }, [isAttracting, returnToLanding]);
+
+  const handleImport = (file: File) => {
+    importLayout(file)
+      .then(imported => {
+        setLayout(() => imported);
+        setImportIssues(null);
+      })
+      .catch(error => {
+        if (error instanceof ExhibitionManifestError) {
+          setImportIssues(error.issues);
+        } else if (error instanceof SyntaxError) {
+          setImportIssues([`${file.name} is not valid JSON: ${error.message}`]);
+        } else {
+          // Anything else, such as a file that cannot be read, is reported the same way
+          console.error(error);
+          setImportIssues([`${file.name} could not be imported: ${error instanceof Error ? error.message : String(error)}`]);
+        }
+      });
+  };
+
+  if (!exhibition || !localizedExhibition) {
+    const [fixBefore, fixAfter] = t('manifestError.fix').split('{file}');
+    return (
+      <div className="w-full h-screen bg-black flex flex-col items-center justify-center p-8">
+        <div className="max-w-2xl w-full bg-white/5 border border-red-500/40 rounded-lg p-6 text-white">
+          <h1 className="text-2xl font-bold mb-2 flex items-center gap-3">
+            <AlertTriangle className="w-6 h-6 text-red-400" />
+            {t('manifestError.title')}
+          </h1>
+          <p className="text-sm text-gray-300 mb-4">
+            {fixBefore}
+            <code className="font-mono">src/data/exhibition.json</code>
+            {fixAfter}
+          </p>
+          <ul className="space-y-1 font-mono text-sm text-red-300 list-disc list-inside">
+            {issues?.map(issue => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="w-full h-screen bg-black flex flex-col items-center justify-center">
+        <Leva hidden={!isDebug} />
         <h1 className="text-6xl font-bold text-white mb-8 animate-fade-in">
-          Virtual Museum
+          {localizedExhibition.title}
         </h1>
-        <div className="space-y-4">
+        {!isPreloaded && (
+          <div className="w-80 mb-8">
+            <div
+              className="h-2 bg-white/20 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={loadingPercent}
+              aria-label={t('landing.loading')}
+            >
+              <div className="h-full bg-white transition-all duration-300" style={{ width: `${loadingPercent}%` }} />
+            </div>
+            <p className="mt-2 text-sm text-gray-400 text-center">
+              {t('landing.loading')} {loadingPercent}%
+            </p>
+          </div>
+        )}
+        <div className="space-y-4 flex flex-col items-center">
           <button
-            onClick={() => {
-              setShowTransition(true);
-              setTimeout(() => {
-                setIsLoading(false);
-                setHasStarted(true);
-                setShowFadeFromWhite(true);
-              }, 3000);
-            }}
-            className="px-8 py-3 bg-white text-black rounded-lg hover:bg-gray-200 transition-colors duration-200 text-xl"
+            onClick={() => enterMuseum()}
+            disabled={!isPreloaded}
+            className="px-8 py-3 bg-white text-black rounded-lg hover:bg-gray-200 transition-colors duration-200 text-xl disabled:opacity-50 disabled:cursor-wait"
           >
-            Enter Museum
+            {t('landing.enter')}
           </button>
+          {localizedExhibition.tours.map(tour => (
+            <button
+              key={tour.id}
+              onClick={() => enterMuseum(tour)}
+              disabled={!isPreloaded}
+              className="px-6 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 transition-colors duration-200 flex items-center gap-2 disabled:opacity-50 disabled:cursor-wait"
+            >
+              <Route className="w-5 h-5" />
+              {localizedExhibition.tours.length > 1
+                ? t('landing.startNamedTour', { title: tour.title })
+                : t('landing.startTour')}
+            </button>
+          ))}
+        </div>
+        <div className="mt-10 flex items-center gap-2 text-white" role="group" aria-label={t('landing.language')}>
+          <Languages className="w-5 h-5 text-gray-400" />
+          {LOCALES.map(({ code, name }) => (
+            <button
+              key={code}
+              onClick={() => setLocale(code)}
+              lang={code}
+              aria-pressed={locale === code}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors duration-200 ${
+                locale === code ? 'bg-white text-black' : 'bg-white/10 hover:bg-white/20'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
         </div>
+        {assetProgress.failures.length > 0 && (
+          <div className="mt-8 max-w-xl text-sm text-amber-200">
+            <p className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              {t('landing.assetsFailed')}
+            </p>
+            <ul className="mt-2 space-y-1 font-mono text-xs text-amber-100/80 list-disc list-inside">
+              {assetProgress.failures.map(failure => (
+                <li key={`${failure.kind}:${failure.url}`} title={failure.message}>
+                  {failure.url}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {showTransition && (
-          <div className="fixed inset-0 bg-white animate-fade-to-white z-50" />
+          <div className="fixed inset-0 bg-white animate-fade-to-white z-50" onAnimationEnd={finishEntering} />
         )}
       </div>
     );
   }
 
+  const [escHintBefore, escHintAfter] = t('hud.escHint').split('{key}');
+
+  const museum = (
+    <Canvas
+      shadows
+      camera={{ fov: 75, near: 0.1, far: 1000 }}
+      style={{ background: '#ffffff' }}
+    >
+      <Museum
+        exhibition={localizedExhibition}
+        selectionMode={selectionMode}
+        debugMode={isDebug}
+        editorSettings={editorSettings}
+        onLayoutChange={handleLayoutChange}
+        visitorPose={visitorPose}
+        navigationTarget={navigationTarget}
+        onNavigationEnd={handleNavigationEnd}
+        onManualMove={pauseTour}
+        onFloorClick={handleFloorClick}
+        touchMode={isTouchDevice}
+        gamepadConnected={gamepadConnected}
+        moveInput={moveInput}
+        isInteracting={isInteracting}
+        onInteractionChange={setIsInteracting}
+      />
+    </Canvas>
+  );
+
+  if (isAttracting) {
+    return (
+      <div className="w-full h-screen">
+        <Leva hidden={!isDebug} />
+        {museum}
+
+        {/* Attract loop prompt, which also keeps the touch that ends the loop away from the museum */}
+        <div className="fixed inset-0 flex flex-col items-center justify-end pb-24 bg-black/20 text-white select-none">
+          <h1 className="text-5xl font-bold mb-6 drop-shadow-lg">{localizedExhibition.title}</h1>
+          <p className="text-2xl animate-pulse drop-shadow">{t('landing.touchToBegin')}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full h-screen">
-      <Canvas
-        shadows
-        camera={{ fov: 75, near: 0.1, far: 1000 }}
-        style={{ background: '#ffffff' }}
-      >
-        <Museum isInteracting={isInteracting} onInteractionChange={setIsInteracting} />
-        <Controls isInteracting={isInteracting} />
-      </Canvas>
+      <Leva hidden={!isDebug} />
+      {museum}
       
+      {/* Layout editor */}
+      {selectionMode && (
+        <EditorToolbar
+          settings={editorSettings}
+          onSettingsChange={setEditorSettings}
+          canUndo={layout.canUndo}
+          canRedo={layout.canRedo}
+          onUndo={layout.undo}
+          onRedo={layout.redo}
+          onExport={() => exportLayout(exhibition)}
+          onImport={handleImport}
+          importIssues={importIssues}
+          onDismissIssues={() => setImportIssues(null)}
+        />
+      )}
+
+      {/* Minimap and floor plan */}
+      <Minimap
+        exhibition={localizedExhibition}
+        visitorPose={visitorPose}
+        visitedIds={visitedIds}
+        onVisit={handleVisit}
+        onNavigate={handleNavigate}
+        canOpenPlan={!isInteracting}
+        onPlanOpenChange={setIsInteracting}
+      />
+
+      {/* Tuning presets */}
+      {isDebug && <TuningPresetsPanel />}
+
+      {/* Master volume */}
+      <AudioControls />
+
+      {/* Guided tour */}
+      {guidedTour.state && !isInteracting && (
+        <TourPanel
+          state={guidedTour.state}
+          onPause={guidedTour.pause}
+          onResume={guidedTour.resume}
+          onPrevious={guidedTour.previous}
+          onNext={guidedTour.next}
+          onEnd={guidedTour.end}
+        />
+      )}
+
+      {/* Unreachable exhibit notice */}
+      {unreachableTitle && !isInteracting && (
+        <div
+          role="status"
+          className="fixed top-1/4 left-1/2 -translate-x-1/2 bg-black bg-opacity-75 px-4 py-2 rounded-lg text-white text-sm pointer-events-none animate-fade-in"
+        >
+          {t('hud.unreachable', { title: unreachableTitle })}
+        </div>
+      )}
+
       {/* Aim pointer */}
       {!isInteracting && (
         <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
@@ -93,34 +560,63 @@ function App() {
         </div>
       )}
       
+      {/* Touch joystick */}
+      {isTouchDevice && !isInteracting && <TouchControls moveInput={moveInput} />}
+
+      {/* Gamepad prompts */}
+      {!isInteracting && gamepadConnected && (
+        <div className="fixed bottom-4 left-4 flex flex-col gap-1 select-none pointer-events-none text-sm text-black/60">
+          {GAMEPAD_PROMPTS.map(([button, action, color]) => (
+            <div key={button} className="flex items-center gap-2">
+              <span className={`min-w-7 h-7 px-1.5 rounded-full ${color} text-white text-xs font-bold flex items-center justify-center`}>
+                {button}
+              </span>
+              {t(action)}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Movement Controls HUD */}
-      {!isInteracting && (
+      {!isInteracting && !isTouchDevice && !gamepadConnected && (
         <div className="fixed bottom-4 left-4 grid grid-cols-3 gap-0.5 scale-75 select-none pointer-events-none opacity-40">
           <div className="col-start-2">
-            <div className={`p-1.5 rounded-lg ${activeKeys.has('KeyW') ? 'bg-black text-white' : 'bg-black/20 text-black'} transition-colors duration-100`}>
-              <ArrowUp size={20} />
-            </div>
+            <HudKey code={bindings.moveForward} isActive={activeKeys.has(bindings.moveForward)} />
           </div>
           <div className="col-start-1 col-end-4 grid grid-cols-3 gap-0.5">
-            <div className={`p-1.5 rounded-lg ${activeKeys.has('KeyA') ? 'bg-black text-white' : 'bg-black/20 text-black'} transition-colors duration-100`}>
-              <ArrowLeft size={20} />
-            </div>
-            <div className={`p-1.5 rounded-lg ${activeKeys.has('KeyS') ? 'bg-black text-white' : 'bg-black/20 text-black'} transition-colors duration-100`}>
-              <ArrowDown size={20} />
-            </div>
-            <div className={`p-1.5 rounded-lg ${activeKeys.has('KeyD') ? 'bg-black text-white' : 'bg-black/20 text-black'} transition-colors duration-100`}>
-              <ArrowRight size={20} />
-            </div>
+            <HudKey code={bindings.strafeLeft} isActive={activeKeys.has(bindings.strafeLeft)} />
+            <HudKey code={bindings.moveBackward} isActive={activeKeys.has(bindings.moveBackward)} />
+            <HudKey code={bindings.strafeRight} isActive={activeKeys.has(bindings.strafeRight)} />
           </div>
         </div>
       )}
 
       {/* ESC key info */}
-      {!isInteracting && (
-        <div className="fixed bottom-4 right-4 text-sm text-black/40 pointer-events-none">
-          Press <kbd className="px-2 py-0.5 bg-black/10 rounded">ESC</kbd> for mouse cursor
+      {!isInteracting && !isTouchDevice && (
+        <div className="fixed bottom-4 right-4 text-sm text-black/40 flex items-center gap-3">
+          {!isKiosk && (
+            <span className="pointer-events-none">
+              {escHintBefore}
+              <kbd className="px-2 py-0.5 bg-black/10 rounded">ESC</kbd>
+              {escHintAfter}
+            </span>
+          )}
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              openInputSettings();
+            }}
+            className="p-1.5 rounded-lg bg-black/10 hover:bg-black/20 text-black/60"
+            aria-label={t('hud.controls')}
+            title={t('hud.controls')}
+          >
+            <Keyboard className="w-4 h-4" />
+          </button>
         </div>
       )}
+
+      {/* Key bindings */}
+      {showInputSettings && <InputSettings onClose={closeInputSettings} />}
       
       {/* White fade transition */}
       {showFadeFromWhite && (
@@ -133,23 +629,20 @@ function App() {
       {/* Instructions overlay with fade effect */}
       {showInstructions && !isInteracting && (
         <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black bg-opacity-75 p-6 rounded-lg text-white text-center transition-opacity duration-1000 animate-fade-in">
-          <h2 className="text-2xl font-bold mb-4">Controls</h2>
+          <h2 className="text-2xl font-bold mb-4">{t('instructions.title')}</h2>
           <div className="space-y-2 text-lg">
-            <p className="flex items-center justify-between gap-4">
-              <span className="font-bold">Move:</span>
-              <span className="font-mono bg-gray-800 px-2 py-1 rounded">WASD</span>
-            </p>
-            <p className="flex items-center justify-between gap-4">
-              <span className="font-bold">Look:</span>
-              <span className="font-mono bg-gray-800 px-2 py-1 rounded">Mouse</span>
-            </p>
-            <p className="flex items-center justify-between gap-4">
-              <span className="font-bold">Exit control:</span>
-              <span className="font-mono bg-gray-800 px-2 py-1 rounded">ESC</span>
-            </p>
+            {(isTouchDevice
+              ? TOUCH_INSTRUCTIONS.map(([action, input]) => [t(action), t(input)])
+              : getDesktopInstructions(bindings, t, isKiosk)
+            ).map(([action, input]) => (
+              <p key={action} className="flex items-center justify-between gap-4">
+                <span className="font-bold">{action}:</span>
+                <span className="font-mono bg-gray-800 px-2 py-1 rounded">{input}</span>
+              </p>
+            ))}
           </div>
           <p className="mt-6 text-sm text-gray-300">
-            This window will close automatically in a few seconds
+            {t('instructions.autoClose')}
           </p>
         </div>
       )}
@@ -0,0 +1,150 @@
+import * as THREE from 'three';
+import { GLTFLoader, type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+/** What a kind of asset loads as. Videos are read whole and played from an object URL. */
+export interface AssetTypes {
+  texture: THREE.Texture;
+  model: GLTF;
+  audio: AudioBuffer;
+  video: string;
+}
+
+export type AssetKind = keyof AssetTypes;
+
+export interface AssetRequest {
+  kind: AssetKind;
+  url: string;
+}
+
+export interface AssetFailure extends AssetRequest {
+  message: string;
+}
+
+/** Counts over every asset requested so far. Loading is finished when `loaded + failures.length === total`. */
+export interface AssetProgress {
+  total: number;
+  loaded: number;
+  failures: AssetFailure[];
+}
+
+type Entry = AssetRequest &
+  ({ status: 'pending'; promise: Promise<unknown> } | { status: 'loaded'; value: unknown } | { status: 'failed'; error: Error });
+
+type Listener = () => void;
+
+// Three.js loaders report to the default loading manager, which drei's useProgress follows too
+const textureLoader = new THREE.TextureLoader();
+const gltfLoader = new GLTFLoader();
+const audioLoader = new THREE.AudioLoader();
+
+const loaders: { [K in AssetKind]: (url: string) => Promise<AssetTypes[K]> } = {
+  texture: url => textureLoader.loadAsync(url),
+  // Draco is left out so models never pull a decoder from a CDN
+  model: url => gltfLoader.loadAsync(url),
+  audio: url => audioLoader.loadAsync(url),
+  video: async url => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return URL.createObjectURL(await response.blob());
+  }
+};
+
+const entries = new Map<string, Entry>();
+const listeners = new Set<Listener>();
+let progress: AssetProgress = { total: 0, loaded: 0, failures: [] };
+
+const keyOf = (kind: AssetKind, url: string) => `${kind}:${url}`;
+
+const notify = () => {
+  const all = [...entries.values()];
+  progress = {
+    total: all.length,
+    loaded: all.filter(entry => entry.status === 'loaded').length,
+    failures: all.flatMap(entry =>
+      entry.status === 'failed' ? [{ kind: entry.kind, url: entry.url, message: entry.error.message }] : []
+    )
+  };
+  listeners.forEach(listener => listener());
+};
+
+function start(kind: AssetKind, url: string): Entry {
+  const key = keyOf(kind, url);
+  const existing = entries.get(key);
+  if (existing) return existing;
+
+  const promise = loaders[kind](url).then(
+    value => {
+      entries.set(key, { kind, url, status: 'loaded', value });
+      notify();
+      return value;
+    },
+    (reason: unknown) => {
+      const error = reason instanceof Error ? reason : new Error(`Could not load ${url}`);
+      console.error(`Failed to load ${kind}: ${url}`, error);
+      entries.set(key, { kind, url, status: 'failed', error });
+      notify();
+      throw error;
+    }
+  );
+  const entry: Entry = { kind, url, status: 'pending', promise };
+  entries.set(key, entry);
+  notify();
+  return entry;
+}
+
+/**
+ * Loads and caches every texture, model, sound and video in the museum. Each
+ * URL is fetched once however many exhibits use it, and failures are kept per
+ * asset so the landing screen can list them.
+ */
+export const assetManager = {
+  load<K extends AssetKind>(kind: K, url: string): Promise<AssetTypes[K]> {
+    const entry = start(kind, url);
+    switch (entry.status) {
+      case 'pending':
+        return entry.promise as Promise<AssetTypes[K]>;
+      case 'loaded':
+        return Promise.resolve(entry.value as AssetTypes[K]);
+      case 'failed':
+        return Promise.reject(entry.error);
+    }
+  },
+
+  /** The loaded asset, or null while it loads or when it failed. Starts nothing. */
+  get<K extends AssetKind>(kind: K, url: string): AssetTypes[K] | null {
+    const entry = entries.get(keyOf(kind, url));
+    return entry?.status === 'loaded' ? (entry.value as AssetTypes[K]) : null;
+  },
+
+  /**
+   * For components rendered under Suspense: returns the asset, suspends while
+   * it loads and throws its error, for an error boundary, when it failed.
+   */
+  read<K extends AssetKind>(kind: K, url: string): AssetTypes[K] {
+    const entry = start(kind, url);
+    switch (entry.status) {
+      case 'pending':
+        throw entry.promise;
+      case 'loaded':
+        return entry.value as AssetTypes[K];
+      case 'failed':
+        throw entry.error;
+    }
+  },
+
+  /** Starts loading every request and resolves once all have loaded or failed. */
+  preload(requests: AssetRequest[]): Promise<void> {
+    return Promise.allSettled(requests.map(({ kind, url }) => assetManager.load(kind, url))).then(() => undefined);
+  },
+
+  getProgress(): AssetProgress {
+    return progress;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,28 @@
+import type { Exhibition } from '../exhibition';
+import type { AssetRequest } from './assetManager';
+
+/**
+ * Everything the museum shows as soon as the visitor walks in: wall artwork,
+ * exhibit textures and models, videos and room ambience. Narration, hotspot
+ * images and hotspot audio wait until an exhibit is inspected.
+ */
+export function getExhibitionAssets(exhibition: Exhibition): AssetRequest[] {
+  const requests: AssetRequest[] = [];
+  for (const room of exhibition.rooms) {
+    for (const wall of room.walls) {
+      if (wall.textureUrl) requests.push({ kind: 'texture', url: wall.textureUrl });
+    }
+    for (const { model } of room.exhibits) {
+      if (model.type === 'gltf') {
+        requests.push({ kind: 'model', url: model.url });
+      } else if (model.textureUrl) {
+        requests.push({ kind: 'texture', url: model.textureUrl });
+      }
+    }
+    for (const screen of room.screens) {
+      requests.push({ kind: 'video', url: screen.videoUrl });
+    }
+    if (room.ambience) requests.push({ kind: 'audio', url: room.ambience.url });
+  }
+  return requests;
+}
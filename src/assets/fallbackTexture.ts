@@ -0,0 +1,25 @@
+import * as THREE from 'three';
+
+const SIZE = 64;
+const SQUARE = 8;
+
+let fallback: THREE.DataTexture | null = null;
+
+/**
+ * A neutral grey check drawn in code, shown on walls whose artwork failed to
+ * load. Being generated, it is there even without a network.
+ */
+export function getFallbackTexture(): THREE.Texture {
+  if (fallback) return fallback;
+
+  const data = new Uint8Array(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const shade = (Math.floor(x / SQUARE) + Math.floor(y / SQUARE)) % 2 === 0 ? 200 : 176;
+      data.set([shade, shade, shade, 255], (y * SIZE + x) * 4);
+    }
+  }
+  fallback = new THREE.DataTexture(data, SIZE, SIZE);
+  fallback.needsUpdate = true;
+  return fallback;
+}
@@ -0,0 +1,12 @@
+export {
+  assetManager,
+  type AssetFailure,
+  type AssetKind,
+  type AssetProgress,
+  type AssetRequest,
+  type AssetTypes
+} from './assetManager';
+export { getExhibitionAssets } from './exhibitionAssets';
+export { getFallbackTexture } from './fallbackTexture';
+export { useAsset } from './useAsset';
+export { useAssetProgress } from './useAssetProgress';
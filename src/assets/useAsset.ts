@@ -0,0 +1,12 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { assetManager, type AssetKind, type AssetTypes } from './assetManager';
+
+/** Loads an asset through the asset manager; null while it loads, when it failed or without a URL. */
+export function useAsset<K extends AssetKind>(kind: K, url: string | undefined): AssetTypes[K] | null {
+  useEffect(() => {
+    // Failures are logged and listed by the asset manager
+    if (url) assetManager.load(kind, url).catch(() => {});
+  }, [kind, url]);
+
+  return useSyncExternalStore(assetManager.subscribe, () => (url ? assetManager.get(kind, url) : null));
+}
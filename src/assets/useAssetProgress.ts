@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { assetManager } from './assetManager';
+
+/** How many assets have loaded or failed; re-renders as each one settles. */
+export function useAssetProgress() {
+  return useSyncExternalStore(assetManager.subscribe, assetManager.getProgress);
+}
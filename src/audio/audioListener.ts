@@ -0,0 +1,16 @@
+import * as THREE from 'three';
+
+/**
+ * Returns the camera's `AudioListener`, creating it on first use. Every sound in
+ * the museum shares this one listener so positional audio follows the visitor.
+ */
+export function getAudioListener(camera: THREE.Camera): THREE.AudioListener {
+  const existing = camera.children.find(
+    (child): child is THREE.AudioListener => child instanceof THREE.AudioListener
+  );
+  if (existing) return existing;
+
+  const listener = new THREE.AudioListener();
+  camera.add(listener);
+  return listener;
+}
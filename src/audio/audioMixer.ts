@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+
+export interface AudioSettings {
+  /** Master volume, 0 to 1. */
+  volume: number;
+  muted: boolean;
+}
+
+const STORAGE_KEY = 'ita-museum.audio';
+const DEFAULT_SETTINGS: AudioSettings = { volume: 0.8, muted: false };
+
+// Room ambience drops to this fraction of its level while something is narrated
+const DUCKED_GAIN = 0.25;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const duckers = new Set<string>();
+let unlocked = false;
+
+function loadSettings(): AudioSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      volume: typeof stored?.volume === 'number' ? THREE.MathUtils.clamp(stored.volume, 0, 1) : DEFAULT_SETTINGS.volume,
+      muted: typeof stored?.muted === 'boolean' ? stored.muted : DEFAULT_SETTINGS.muted
+    };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+let settings = loadSettings();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const save = (next: AudioSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save the audio settings:', error);
+  }
+  notify();
+};
+
+/**
+ * The museum's master volume, mute and ducking, shared by the HUD, room
+ * ambience, narration and the tour. Volume and mute are saved in localStorage.
+ */
+export const audioMixer = {
+  getSettings(): AudioSettings {
+    return settings;
+  },
+
+  setVolume(volume: number) {
+    const clamped = THREE.MathUtils.clamp(volume, 0, 1);
+    // Dragging the slider up is as good as unmuting
+    save({ volume: clamped, muted: clamped === 0 ? settings.muted : false });
+  },
+
+  toggleMute() {
+    save({ ...settings, muted: !settings.muted });
+  },
+
+  /** The level everything should play at, after mute. */
+  getOutputVolume() {
+    return settings.muted ? 0 : settings.volume;
+  },
+
+  /**
+   * Browsers only let audio start after a user gesture, so this is called from
+   * the click that enters the museum. Nothing plays before it.
+   */
+  unlock() {
+    if (unlocked) return;
+    unlocked = true;
+    THREE.AudioContext.getContext()
+      .resume()
+      .catch(error => console.warn('Audio could not be started:', error));
+    notify();
+  },
+
+  isUnlocked() {
+    return unlocked;
+  },
+
+  /** Lowers the room ambience while `id` is narrating; undo with `unduck`. */
+  duck(id: string) {
+    duckers.add(id);
+  },
+
+  unduck(id: string) {
+    duckers.delete(id);
+  },
+
+  /** Multiplier for ambience: 1 normally, lower while anything is narrating. */
+  getAmbienceGain() {
+    return duckers.size > 0 ? DUCKED_GAIN : 1;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,4 @@
+export { audioMixer, type AudioSettings } from './audioMixer';
+export { getAudioListener } from './audioListener';
+export { useAudioSettings } from './useAudioSettings';
+export { useNarration } from './useNarration';
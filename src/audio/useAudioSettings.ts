@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { audioMixer } from './audioMixer';
+
+/** The master volume and mute; re-renders when the visitor changes them. */
+export function useAudioSettings() {
+  return useSyncExternalStore(audioMixer.subscribe, audioMixer.getSettings);
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { audioMixer } from './audioMixer';
+import { getAudioListener } from './audioListener';
+
+// Narration is heard at full volume from the exhibit held in front of the visitor
+const NARRATION_REF_DISTANCE = 3;
+
+/**
+ * Plays an exhibit's narration from the exhibit itself while `isActive`,
+ * starting from the beginning each time and ducking the room ambience while it
+ * speaks. Returns whether it is playing and a play/pause toggle.
+ */
+export function useNarration(id: string, url: string | undefined, anchor: RefObject<THREE.Object3D>, isActive: boolean) {
+  const { camera } = useThree();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const element = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const target = anchor.current;
+    if (!url || !isActive || !target) return;
+
+    const audio = document.createElement('audio');
+    audio.src = url;
+    audio.crossOrigin = 'anonymous';
+    audio.preload = 'auto';
+
+    const sound = new THREE.PositionalAudio(getAudioListener(camera));
+    sound.setMediaElementSource(audio);
+    sound.setRefDistance(NARRATION_REF_DISTANCE);
+    target.add(sound);
+
+    const handlePlay = () => {
+      audioMixer.duck(id);
+      setIsPlaying(true);
+    };
+    const handleStop = () => {
+      audioMixer.unduck(id);
+      setIsPlaying(false);
+    };
+    const handleError = () => console.error(`Failed to load narration: ${url}`);
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handleStop);
+    audio.addEventListener('ended', handleStop);
+    audio.addEventListener('error', handleError);
+    audio.play().catch(error => console.warn('Narration was blocked:', error));
+    element.current = audio;
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handleStop);
+      audio.removeEventListener('ended', handleStop);
+      audio.removeEventListener('error', handleError);
+      audio.removeAttribute('src');
+      audio.load();
+
+      target.remove(sound);
+      sound.disconnect();
+
+      audioMixer.unduck(id);
+      element.current = null;
+      setIsPlaying(false);
+    };
+  }, [id, url, anchor, isActive, camera]);
+
+  const toggle = useCallback(() => {
+    const audio = element.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(error => console.warn('Narration was blocked:', error));
+    } else {
+      audio.pause();
+    }
+  }, []);
+
+  return { isPlaying, toggle };
+}
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import type { ColliderBox } from './colliderBoxes';
+
+/** The visitor's body: an upright capsule hanging below the eyes. */
+export interface Capsule {
+  radius: number;
+  /** Height of the eyes above the feet. */
+  eyeHeight: number;
+  /** Obstacles whose top is at most this far above the feet are stepped over rather than blocking. */
+  stepHeight: number;
+}
+
+interface Contact {
+  normal: THREE.Vector3;
+  depth: number;
+}
+
+// The head reaches a little above the eyes
+const HEAD_CLEARANCE = 0.1;
+// Pushed this much further than the overlap, so the next test starts clear of the surface
+const SKIN = 0.001;
+const MAX_ITERATIONS = 4;
+// Normals closer than this are treated as the same plane when sliding
+const SAME_PLANE = 0.999;
+
+/**
+ * The horizontal push that separates an upright capsule, with eyes at
+ * `position`, from a box, or null when they do not touch. Above the step
+ * height the capsule's rounded bottom lets it clear box edges it only grazes.
+ */
+function findContact(position: THREE.Vector3, capsule: Capsule, box: ColliderBox): Contact | null {
+  const feet = position.y - capsule.eyeHeight;
+  const bottom = feet + capsule.stepHeight + capsule.radius;
+  const top = Math.max(bottom, position.y + HEAD_CLEARANCE - capsule.radius);
+
+  // Vertical gap between the capsule's spine and the box
+  const boxBottom = box.center.y - box.halfSize.y;
+  const boxTop = box.center.y + box.halfSize.y;
+  const gap = Math.max(0, boxBottom - top, bottom - boxTop);
+  if (gap >= capsule.radius) return null;
+  // The capsule's horizontal reach at the height where it meets the box
+  const reach = Math.sqrt(capsule.radius * capsule.radius - gap * gap);
+
+  // Into the box's own frame, where it is axis-aligned
+  const cos = Math.cos(box.yaw);
+  const sin = Math.sin(box.yaw);
+  const dx = position.x - box.center.x;
+  const dz = position.z - box.center.z;
+  const localX = dx * cos - dz * sin;
+  const localZ = dx * sin + dz * cos;
+
+  const offsetX = localX - THREE.MathUtils.clamp(localX, -box.halfSize.x, box.halfSize.x);
+  const offsetZ = localZ - THREE.MathUtils.clamp(localZ, -box.halfSize.z, box.halfSize.z);
+  const distance = Math.hypot(offsetX, offsetZ);
+  if (distance >= reach) return null;
+
+  let normalX: number;
+  let normalZ: number;
+  let depth: number;
+  if (distance > 1e-6) {
+    normalX = offsetX / distance;
+    normalZ = offsetZ / distance;
+    depth = reach - distance;
+  } else {
+    // The spine is inside the box: leave through the nearest side
+    const toSideX = box.halfSize.x - Math.abs(localX);
+    const toSideZ = box.halfSize.z - Math.abs(localZ);
+    normalX = toSideX < toSideZ ? Math.sign(localX) || 1 : 0;
+    normalZ = toSideX < toSideZ ? 0 : Math.sign(localZ) || 1;
+    depth = reach + Math.min(toSideX, toSideZ);
+  }
+
+  // Back into the world
+  return {
+    normal: new THREE.Vector3(normalX * cos + normalZ * sin, 0, -normalX * sin + normalZ * cos),
+    depth
+  };
+}
+
+function addPlane(planes: THREE.Vector3[], normal: THREE.Vector3) {
+  if (!planes.some(plane => plane.dot(normal) > SAME_PLANE)) planes.push(normal);
+}
+
+/** Pushes the capsule out of every box it overlaps, deepest first, and collects the surfaces it touched. */
+function depenetrate(position: THREE.Vector3, capsule: Capsule, boxes: ColliderBox[], planes: THREE.Vector3[]) {
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let deepest: Contact | null = null;
+    for (const box of boxes) {
+      const contact = findContact(position, capsule, box);
+      if (contact && (!deepest || contact.depth > deepest.depth)) deepest = contact;
+    }
+    if (!deepest) return;
+
+    position.addScaledVector(deepest.normal, deepest.depth + SKIN);
+    addPlane(planes, deepest.normal);
+  }
+}
+
+/**
+ * Moves the capsule by `displacement`, sliding along whatever it runs into.
+ * The move is split into steps no longer than half the radius, so even a fast
+ * visitor on a slow frame cannot pass through a thin wall. Returns the
+ * normals of the surfaces touched, for `slideVelocity`.
+ */
+export function moveCapsule(
+  position: THREE.Vector3,
+  displacement: THREE.Vector3,
+  capsule: Capsule,
+  boxes: ColliderBox[]
+): THREE.Vector3[] {
+  const planes: THREE.Vector3[] = [];
+  const steps = Math.max(1, Math.ceil(displacement.length() / (capsule.radius / 2)));
+  const step = displacement.clone().divideScalar(steps);
+
+  for (let index = 0; index < steps; index++) {
+    position.add(step);
+    depenetrate(position, capsule, boxes, planes);
+  }
+  return planes;
+}
+
+/**
+ * Removes the part of `velocity` that runs into the touched surfaces. Against
+ * two surfaces at once it keeps only the motion along their crease, and in a
+ * corner it stops, so the visitor never pushes back and forth between walls.
+ */
+export function slideVelocity(velocity: THREE.Vector3, planes: THREE.Vector3[]) {
+  const crease = new THREE.Vector3();
+
+  for (let i = 0; i < planes.length; i++) {
+    if (velocity.dot(planes[i]) >= 0) continue;
+    velocity.projectOnPlane(planes[i]);
+
+    for (let j = 0; j < planes.length; j++) {
+      if (j === i || velocity.dot(planes[j]) >= 0) continue;
+
+      crease.crossVectors(planes[i], planes[j]);
+      if (crease.lengthSq() < 1e-8) continue;
+      velocity.projectOnVector(crease.normalize());
+
+      if (planes.some((plane, k) => k !== i && k !== j && velocity.dot(plane) < 0)) {
+        velocity.set(0, 0, 0);
+        return;
+      }
+    }
+  }
+}
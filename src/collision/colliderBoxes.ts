@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { collisionRegistry } from './collisionRegistry';
+
+/** A collider as a box turned only about the vertical axis, which is all walls, stands, platforms and steps ever are. */
+export interface ColliderBox {
+  center: THREE.Vector3;
+  /** Half the width, height and depth, in the box's own frame. */
+  halfSize: THREE.Vector3;
+  /** Rotation about the vertical axis, in radians. */
+  yaw: number;
+}
+
+const cache = new Map<THREE.Object3D, ColliderBox | null>();
+const scratch = {
+  position: new THREE.Vector3(),
+  quaternion: new THREE.Quaternion(),
+  scale: new THREE.Vector3(),
+  euler: new THREE.Euler(0, 0, 0, 'YXZ'),
+  box: new THREE.Box3()
+};
+
+// Colliders are cached until one is added, removed or moved
+collisionRegistry.subscribe(() => cache.clear());
+
+function measure(object: THREE.Object3D): ColliderBox | null {
+  object.updateWorldMatrix(true, false);
+
+  // Walls, stands, platforms and steps are single box meshes: keep their exact, possibly rotated, shape
+  if (object instanceof THREE.Mesh && object.geometry instanceof THREE.BoxGeometry) {
+    const geometry = object.geometry;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const local = geometry.boundingBox;
+    if (!local) return null;
+
+    object.matrixWorld.decompose(scratch.position, scratch.quaternion, scratch.scale);
+    const halfSize = local.getSize(new THREE.Vector3()).multiply(scratch.scale).multiplyScalar(0.5);
+    const center = local.getCenter(new THREE.Vector3()).applyMatrix4(object.matrixWorld);
+    return { center, halfSize, yaw: scratch.euler.setFromQuaternion(scratch.quaternion).y };
+  }
+
+  // Anything else, such as an exhibit's model, collides as its upright bounding box.
+  // A glTF measured while loading gets its placeholder cube, which bounds the model too
+  scratch.box.setFromObject(object);
+  if (scratch.box.isEmpty()) return null;
+  return {
+    center: scratch.box.getCenter(new THREE.Vector3()),
+    halfSize: scratch.box.getSize(new THREE.Vector3()).multiplyScalar(0.5),
+    yaw: 0
+  };
+}
+
+/**
+ * Boxes for every registered collider except ramps, which slope and are
+ * followed by `findGroundHeight` instead. Boxes are kept until the registry
+ * next changes; only objects with nothing to measure yet are tried again on
+ * the next call. A glTF still loading is measured from its placeholder cube,
+ * which bounds the normalised model, and keeps that box once it loads.
+ */
+export function getColliderBoxes(): ColliderBox[] {
+  const boxes: ColliderBox[] = [];
+  for (const object of collisionRegistry.getObjects()) {
+    if (object.userData.collider?.kind === 'ramp') continue;
+    let box = cache.get(object);
+    if (!box) {
+      box = measure(object);
+      cache.set(object, box);
+    }
+    if (box) boxes.push(box);
+  }
+  return boxes;
+}
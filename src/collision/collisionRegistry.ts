@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+
+/**
+ * What a collider is. Platforms, stairs and ramps are walked on as well as
+ * bumped into; ramps slope, so they are only ever stood on.
+ */
+export type ColliderKind = 'wall' | 'stand' | 'exhibit' | 'platform' | 'stairs' | 'ramp';
+
+/** Kinds the visitor can stand on, and so teleport onto. */
+export const WALKABLE_KINDS: ColliderKind[] = ['platform', 'stairs', 'ramp'];
+
+export interface ColliderEntry {
+  id: string;
+  kind: ColliderKind;
+  object: THREE.Object3D;
+}
+
+type Listener = () => void;
+
+const entries = new Map<THREE.Object3D, ColliderEntry>();
+const listeners = new Set<Listener>();
+let objects: THREE.Object3D[] = [];
+
+const notify = () => {
+  objects = [...entries.keys()];
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * The set of scene objects the visitor collides with. Rendered meshes register
+ * themselves, so colliders always match what is on screen and follow the mesh
+ * when it is moved.
+ */
+export const collisionRegistry = {
+  register(entry: ColliderEntry) {
+    entry.object.userData.collider = entry;
+    entries.set(entry.object, entry);
+    notify();
+  },
+
+  unregister(object: THREE.Object3D) {
+    if (!entries.delete(object)) return;
+    delete object.userData.collider;
+    notify();
+  },
+
+  /** Call after moving a registered object so cached consumers can rebuild. */
+  touch(object: THREE.Object3D) {
+    if (entries.has(object)) notify();
+  },
+
+  getObjects(): THREE.Object3D[] {
+    return objects;
+  },
+
+  getEntries(): ColliderEntry[] {
+    return [...entries.values()];
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
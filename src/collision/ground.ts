@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+import { getColliderBoxes, type ColliderBox } from './colliderBoxes';
+import { collisionRegistry } from './collisionRegistry';
+
+// Every room's floor lies at this height
+const FLOOR_HEIGHT = 0;
+
+const raycaster = new THREE.Raycaster();
+const down = new THREE.Vector3(0, -1, 0);
+const origin = new THREE.Vector3();
+let ramps: THREE.Object3D[] | null = null;
+
+// Ramps are listed again whenever a collider is added or removed
+collisionRegistry.subscribe(() => {
+  ramps = null;
+});
+
+const getRamps = () => {
+  ramps ??= collisionRegistry.getEntries().filter(entry => entry.kind === 'ramp').map(entry => entry.object);
+  return ramps;
+};
+
+function isAbove(box: ColliderBox, x: number, z: number) {
+  const cos = Math.cos(box.yaw);
+  const sin = Math.sin(box.yaw);
+  const dx = x - box.center.x;
+  const dz = z - box.center.z;
+  return (
+    Math.abs(dx * cos - dz * sin) <= box.halfSize.x &&
+    Math.abs(dx * sin + dz * cos) <= box.halfSize.z
+  );
+}
+
+/**
+ * Height of the surface the visitor would stand on at `(x, z)`: the highest
+ * floor, platform, step, ramp or other collider top that is no higher than
+ * `from`. The feet are a single point, so the visitor steps off an edge as
+ * soon as their centre passes it.
+ */
+export function findGroundHeight(x: number, z: number, from: number): number {
+  let ground = FLOOR_HEIGHT;
+
+  for (const box of getColliderBoxes()) {
+    const top = box.center.y + box.halfSize.y;
+    if (top > ground && top <= from && isAbove(box, x, z)) ground = top;
+  }
+
+  const rampObjects = getRamps();
+  if (rampObjects.length > 0 && from > ground) {
+    raycaster.set(origin.set(x, from, z), down);
+    raycaster.far = from - ground;
+    const [hit] = raycaster.intersectObjects(rampObjects, false);
+    if (hit) ground = hit.point.y;
+  }
+
+  return ground;
+}
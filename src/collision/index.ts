@@ -0,0 +1,5 @@
+export { moveCapsule, slideVelocity, type Capsule } from './capsule';
+export { getColliderBoxes, type ColliderBox } from './colliderBoxes';
+export { collisionRegistry, WALKABLE_KINDS, type ColliderEntry, type ColliderKind } from './collisionRegistry';
+export { findGroundHeight } from './ground';
+export { useCollider } from './useCollider';
@@ -0,0 +1,20 @@
+import { useEffect, type RefObject } from 'react';
+import * as THREE from 'three';
+import { collisionRegistry, type ColliderKind } from './collisionRegistry';
+
+interface UseColliderOptions {
+  id: string;
+  kind: ColliderKind;
+  enabled?: boolean;
+}
+
+/** Registers the referenced object as a collider for as long as it is mounted and enabled. */
+export function useCollider(ref: RefObject<THREE.Object3D>, { id, kind, enabled = true }: UseColliderOptions) {
+  useEffect(() => {
+    const object = ref.current;
+    if (!object || !enabled) return;
+
+    collisionRegistry.register({ id, kind, object });
+    return () => collisionRegistry.unregister(object);
+  }, [ref, id, kind, enabled]);
+}
@@ -0,0 +1,39 @@
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { audioMixer, useAudioSettings } from '../audio';
+import { useTranslation } from '../i18n';
+
+/** Master volume and mute for everything the museum plays, kept under the minimap. */
+export function AudioControls() {
+  const { volume, muted } = useAudioSettings();
+  const { t } = useTranslation();
+  const isSilent = muted || volume === 0;
+  const VolumeIcon = isSilent ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div
+      className="fixed top-56 right-4 z-30 flex items-center gap-2 bg-black bg-opacity-60 rounded-lg px-2 py-1.5 text-white select-none"
+      // Keep PointerLockControls from re-locking when the slider is used
+      onClick={e => e.stopPropagation()}
+    >
+      <button
+        onClick={audioMixer.toggleMute}
+        className="p-1 rounded hover:bg-white/20"
+        aria-label={muted ? t('hud.unmute') : t('hud.mute')}
+        aria-pressed={muted}
+        title={muted ? t('hud.unmute') : t('hud.mute')}
+      >
+        <VolumeIcon className="w-4 h-4" />
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={muted ? 0 : volume}
+        onChange={e => audioMixer.setVolume(Number(e.target.value))}
+        className="w-24 accent-white"
+        aria-label={t('hud.volume')}
+      />
+    </div>
+  );
+}
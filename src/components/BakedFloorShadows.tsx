@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { ContactShadows, useProgress } from '@react-three/drei';
+import type { FloorDefinition } from '../exhibition';
+
+interface BakedFloorShadowsProps {
+  floor: FloorDefinition;
+}
+
+// Height above the floor that still darkens it, enough for the stands and what stands on them
+const SHADOW_REACH = 3;
+
+/**
+ * Soft contact shadows under everything in a room, rendered once instead of
+ * every frame, for machines that cannot afford real-time shadow maps. They are
+ * baked again whenever models or textures finish loading.
+ */
+export function BakedFloorShadows({ floor }: BakedFloorShadowsProps) {
+  const isLoading = useProgress(state => state.active);
+  const [bake, setBake] = useState(0);
+
+  useEffect(() => {
+    if (!isLoading) setBake(count => count + 1);
+  }, [isLoading]);
+
+  return (
+    <ContactShadows
+      key={bake}
+      frames={1}
+      position={[floor.center[0], 0.01, floor.center[1]]}
+      scale={floor.size}
+      far={SHADOW_REACH}
+      blur={2}
+      opacity={0.6}
+      resolution={512}
+    />
+  );
+}
@@ -1,117 +1,202 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useEffect, type MutableRefObject } from 'react';
 import { useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useControls } from 'leva';
+import { findGroundHeight, getColliderBoxes, moveCapsule, slideVelocity, type Capsule } from '../collision';
+import type { NavigationEndReason, NavigationTarget } from '../navigation';
+import { getGamepad, inputBindings, readStick, type InputAction, type MoveInput } from '../input';
+import { useVisitorSettings } from '../visitor';
+import { DEFAULT_TUNING } from '../debug';
 
 interface ControlsProps {
   isInteracting?: boolean;
+  navigationTarget?: NavigationTarget | null;
+  onNavigationEnd?: (reason: NavigationEndReason) => void;
+  /** Called whenever the visitor starts walking by hand. */
+  onManualMove?: () => void;
+  /** Analog input from on-screen controls, combined with the movement keys and gamepad. */
+  moveInput?: MutableRefObject<MoveInput>;
+  /** Keeps the camera at eye height above the floor; off for the orbit view, which flies free. */
+  followGround?: boolean;
 }
 
-export function Controls({ isInteracting = false }: ControlsProps) {
-  const { camera, scene } = useThree();
+const MOVEMENT_ACTIONS: InputAction[] = ['moveForward', 'moveBackward', 'strafeLeft', 'strafeRight'];
+
+// Auto-walk tuning: how close counts as arrived (or as passing a waypoint), where
+// the visitor starts turning towards the exhibit, and how long without progress
+// before giving up
+const ARRIVAL_DISTANCE = 0.15;
+const WAYPOINT_RADIUS = 0.4;
+const FACING_DISTANCE = 1.5;
+const TURN_RATE = 4;
+
+// Gamepad right stick: radians turned per second at full deflection
+const STICK_LOOK_SPEED = 2.5;
+const MAX_PITCH = Math.PI / 2 - 0.05;
+const STUCK_TIMEOUT = 1.5;
+
+const GRAVITY = 9.8;
+// How fast the camera catches up after the feet go up or down a step
+const STEP_SMOOTHING = 12;
+// Slack above a teleport's height, so a point clicked on a surface finds that surface
+const LANDING_TOLERANCE = 0.05;
+
+export function Controls({
+  isInteracting = false,
+  navigationTarget = null,
+  onNavigationEnd,
+  onManualMove,
+  moveInput,
+  followGround = true
+}: ControlsProps) {
+  const { camera } = useThree();
+  const { eyeHeight } = useVisitorSettings();
   
   const {
     moveSpeed,
     acceleration,
     deceleration,
-    collisionDistance,
-    wallSlideForce
+    visitorRadius,
+    stepHeight
   } = useControls('Movement', {
-    moveSpeed: { value: 2.8, min: 0.1, max: 10, step: 0.1 },
-    acceleration: { value: 15.0, min: 0.1, max: 20, step: 0.1 },
-    deceleration: { value: 8.0, min: 0.1, max: 10, step: 0.1 },
-    collisionDistance: { value: 0.5, min: 0.1, max: 3, step: 0.1 },
-    wallSlideForce: { value: 0.98, min: 0.1, max: 1, step: 0.01 }
+    moveSpeed: { value: DEFAULT_TUNING.Movement.moveSpeed, min: 0.1, max: 10, step: 0.1 },
+    acceleration: { value: DEFAULT_TUNING.Movement.acceleration, min: 0.1, max: 20, step: 0.1 },
+    deceleration: { value: DEFAULT_TUNING.Movement.deceleration, min: 0.1, max: 10, step: 0.1 },
+    visitorRadius: { value: DEFAULT_TUNING.Movement.visitorRadius, min: 0.1, max: 0.6, step: 0.05 },
+    stepHeight: { value: DEFAULT_TUNING.Movement.stepHeight, min: 0, max: 0.6, step: 0.05 }
   });
   
   const velocity = useRef(new THREE.Vector3());
   const targetVelocity = useRef(new THREE.Vector3());
   const lastTime = useRef(performance.now());
   const activeKeys = useRef(new Set<string>());
-  const collisionNormal = useRef(new THREE.Vector3());
-  const wallColliders = useRef<THREE.Mesh[]>([]);
-  const raycaster = useRef(new THREE.Raycaster());
+  const navigation = useRef(navigationTarget);
+  const navigationProgress = useRef({ waypointIndex: 0, closestDistance: Infinity, lastProgressTime: 0 });
+  const callbacks = useRef({ onNavigationEnd, onManualMove });
+  // The feet follow the floor exactly; the camera above them is smoothed over steps.
+  // `cameraY` is where this left the camera, to notice when something else moves it
+  const footing = useRef({ feet: 0, fallSpeed: 0, stepOffset: 0, cameraY: NaN });
+
+  useEffect(() => {
+    callbacks.current = { onNavigationEnd, onManualMove };
+  }, [onNavigationEnd, onManualMove]);
+
+  useEffect(() => {
+    navigation.current = navigationTarget;
+    navigationProgress.current = { waypointIndex: 0, closestDistance: Infinity, lastProgressTime: performance.now() };
+  }, [navigationTarget]);
   
   useEffect(() => {
-    const createWallCollider = (position: THREE.Vector3, size: THREE.Vector3) => {
-      const wallGeometry = new THREE.BoxGeometry(size.x, size.y, size.z);
-      const invisibleMaterial = new THREE.MeshBasicMaterial({ visible: false });
-      const wall = new THREE.Mesh(wallGeometry, invisibleMaterial);
-      wall.position.copy(position);
-      scene.add(wall);
-      wallColliders.current.push(wall);
-      return wall;
+    const lookAtMatrix = new THREE.Matrix4();
+    const lookEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+    // On-screen joystick and gamepad left stick, combined and sampled once per frame
+    const analog: MoveInput = { x: 0, y: 0 };
+    const targetQuaternion = new THREE.Quaternion();
+    const lookAtPoint = new THREE.Vector3();
+    const displacement = new THREE.Vector3();
+    const body = new THREE.Vector3();
+    const capsule: Capsule = { radius: visitorRadius, eyeHeight, stepHeight };
+
+    const placeCamera = () => {
+      const state = footing.current;
+      camera.position.y = state.feet + eyeHeight + state.stepOffset;
+      state.cameraY = camera.position.y;
     };
 
-    const walls = [
-      // Walls
-      createWallCollider(new THREE.Vector3(0, 2.5, -10), new THREE.Vector3(10, 5, 0.2)),
-      createWallCollider(new THREE.Vector3(-10, 2.5, -5), new THREE.Vector3(0.2, 5, 10)),
-      createWallCollider(new THREE.Vector3(-10, 2.5, 5), new THREE.Vector3(0.2, 5, 10)),
-      createWallCollider(new THREE.Vector3(10, 2.5, -5), new THREE.Vector3(0.2, 5, 10)),
-      createWallCollider(new THREE.Vector3(10, 2.5, 5), new THREE.Vector3(0.2, 5, 10)),
-      createWallCollider(new THREE.Vector3(-4, 2.5, 0), new THREE.Vector3(4, 5, 0.2)),
-      createWallCollider(new THREE.Vector3(4, 2.5, 0), new THREE.Vector3(4, 5, 0.2)),
-      createWallCollider(new THREE.Vector3(-5, 2.5, -5), new THREE.Vector3(0.2, 5, 5)),
-      
-      // Blue stands with larger collision boxes
-      createWallCollider(new THREE.Vector3(-3, 1, 5), new THREE.Vector3(2.5, 2, 2.5)),
-      createWallCollider(new THREE.Vector3(3, 1, 5), new THREE.Vector3(2.5, 2, 2.5)),
-      createWallCollider(new THREE.Vector3(-3, 1, -5), new THREE.Vector3(2.5, 2, 2.5)),
-      createWallCollider(new THREE.Vector3(3, 1, -5), new THREE.Vector3(2.5, 2, 2.5)),
-      createWallCollider(new THREE.Vector3(7, 1, -5), new THREE.Vector3(2.5, 2, 4.5))
-    ];
-
-    const checkCollision = (newPosition: THREE.Vector3) => {
-      const rays = [
-        new THREE.Vector3(1, 0, 0),
-        new THREE.Vector3(-1, 0, 0),
-        new THREE.Vector3(0, 0, 1),
-        new THREE.Vector3(0, 0, -1),
-        new THREE.Vector3(1, 0, 1).normalize(),
-        new THREE.Vector3(-1, 0, 1).normalize(),
-        new THREE.Vector3(1, 0, -1).normalize(),
-        new THREE.Vector3(-1, 0, -1).normalize(),
-      ];
-
-      let hasCollision = false;
-      collisionNormal.current.set(0, 0, 0);
-      
-      for (const direction of rays) {
-        raycaster.current.set(newPosition, direction);
-        const intersects = raycaster.current.intersectObjects(wallColliders.current);
-        
-        if (intersects.length > 0 && intersects[0].distance < collisionDistance) {
-          hasCollision = true;
-          if (intersects[0].face) {
-            const point = intersects[0].point;
-            const pushDirection = new THREE.Vector3().subVectors(newPosition, point).normalize();
-            collisionNormal.current.add(pushDirection);
-          }
-        }
+    // Stand on the floor at `(x, z)` no higher than `height`
+    const land = (x: number, z: number, height: number) => {
+      const state = footing.current;
+      camera.position.x = x;
+      camera.position.z = z;
+      state.feet = findGroundHeight(x, z, height);
+      state.fallSpeed = 0;
+      state.stepOffset = 0;
+      placeCamera();
+    };
+
+    // Step up and down with the floor, and fall when it drops away by more than a step
+    const followFloor = (deltaTime: number) => {
+      const state = footing.current;
+      const ground = findGroundHeight(camera.position.x, camera.position.z, state.feet + stepHeight);
+      if (state.fallSpeed === 0 && ground >= state.feet - stepHeight) {
+        state.stepOffset += state.feet - ground;
+        state.feet = ground;
+      } else {
+        state.fallSpeed += GRAVITY * deltaTime;
+        state.feet = Math.max(ground, state.feet - state.fallSpeed * deltaTime);
+        if (state.feet === ground) state.fallSpeed = 0;
       }
-      
-      if (hasCollision) {
-        collisionNormal.current.normalize();
-        
-        const dot = velocity.current.dot(collisionNormal.current);
-        
-        if (dot < 0) {
-          const pushBack = collisionNormal.current.clone().multiplyScalar(dot);
-          velocity.current.sub(pushBack);
-          
-          const parallelVelocity = velocity.current.clone().projectOnPlane(collisionNormal.current);
-          velocity.current.copy(parallelVelocity);
-          
-          velocity.current.multiplyScalar(wallSlideForce);
+      state.stepOffset *= Math.exp(-STEP_SMOOTHING * deltaTime);
+      placeCamera();
+    };
+
+    const endNavigation = (reason: NavigationEndReason) => {
+      if (!navigation.current) return;
+      navigation.current = null;
+      targetVelocity.current.set(0, 0, 0);
+      callbacks.current.onNavigationEnd?.(reason);
+    };
+
+    const faceTowards = (point: THREE.Vector3, deltaTime: number) => {
+      lookAtMatrix.lookAt(camera.position, point, camera.up);
+      targetQuaternion.setFromRotationMatrix(lookAtMatrix);
+      camera.quaternion.slerp(targetQuaternion, 1 - Math.exp(-TURN_RATE * deltaTime));
+      return camera.quaternion.angleTo(targetQuaternion);
+    };
+
+    // Follow the waypoints, looking where the visitor walks, and turn to face the
+    // exhibit on the final approach
+    const steerTowards = (
+      { mode, waypoints, lookAt, height }: NavigationTarget,
+      deltaTime: number,
+      currentTime: number
+    ) => {
+      if (mode === 'teleport') {
+        const [x, z] = waypoints[waypoints.length - 1];
+        land(x, z, (height ?? footing.current.feet + stepHeight) + LANDING_TOLERANCE);
+        if (lookAt) camera.lookAt(...lookAt);
+        velocity.current.set(0, 0, 0);
+        endNavigation('arrived');
+        return;
+      }
+
+      const progress = navigationProgress.current;
+      let [x, z] = waypoints[progress.waypointIndex];
+      let distance = Math.hypot(x - camera.position.x, z - camera.position.z);
+      while (progress.waypointIndex < waypoints.length - 1 && distance < WAYPOINT_RADIUS) {
+        progress.waypointIndex += 1;
+        progress.closestDistance = Infinity;
+        [x, z] = waypoints[progress.waypointIndex];
+        distance = Math.hypot(x - camera.position.x, z - camera.position.z);
+      }
+      const isFinalWaypoint = progress.waypointIndex === waypoints.length - 1;
+
+      if (distance > ARRIVAL_DISTANCE) {
+        const speed = isFinalWaypoint ? moveSpeed * Math.min(1, distance) : moveSpeed;
+        targetVelocity.current.set(x - camera.position.x, 0, z - camera.position.z).normalize().multiplyScalar(speed);
+      } else {
+        targetVelocity.current.set(0, 0, 0);
+      }
+
+      if (isFinalWaypoint && lookAt && distance < FACING_DISTANCE) {
+        const angle = faceTowards(lookAtPoint.set(...lookAt), deltaTime);
+        if (distance <= ARRIVAL_DISTANCE && angle < 0.01) {
+          endNavigation('arrived');
+          return;
         }
-        
-        const pushDistance = collisionDistance - 0.05;
-        newPosition.add(collisionNormal.current.multiplyScalar(pushDistance));
-        
-        return true;
+      } else if (distance > FACING_DISTANCE) {
+        faceTowards(lookAtPoint.set(x, camera.position.y, z), deltaTime);
+      } else if (isFinalWaypoint && distance <= ARRIVAL_DISTANCE) {
+        endNavigation('arrived');
+        return;
+      }
+
+      if (distance < progress.closestDistance - 0.05) {
+        progress.closestDistance = distance;
+        progress.lastProgressTime = currentTime;
+      } else if (distance > ARRIVAL_DISTANCE && currentTime - progress.lastProgressTime > STUCK_TIMEOUT * 1000) {
+        endNavigation('blocked');
       }
-      return false;
     };
 
     const updateTargetVelocity = () => {
@@ -132,10 +217,16 @@ export function Controls({ isInteracting = false }: ControlsProps) {
       right.y = 0;
       right.normalize();
 
-      if (activeKeys.current.has('KeyW')) targetVelocity.current.add(forward.multiplyScalar(moveSpeed));
-      if (activeKeys.current.has('KeyS')) targetVelocity.current.sub(forward.multiplyScalar(moveSpeed));
-      if (activeKeys.current.has('KeyA')) targetVelocity.current.add(right.multiplyScalar(moveSpeed));
-      if (activeKeys.current.has('KeyD')) targetVelocity.current.sub(right.multiplyScalar(moveSpeed));
+      // Analog input walks slower the less the stick is pushed
+      targetVelocity.current.addScaledVector(forward, analog.y * moveSpeed);
+      targetVelocity.current.addScaledVector(right, -analog.x * moveSpeed);
+
+      const bindings = inputBindings.get();
+      const isHeld = (action: InputAction) => activeKeys.current.has(bindings[action]);
+      if (isHeld('moveForward')) targetVelocity.current.addScaledVector(forward, moveSpeed);
+      if (isHeld('moveBackward')) targetVelocity.current.addScaledVector(forward, -moveSpeed);
+      if (isHeld('strafeLeft')) targetVelocity.current.addScaledVector(right, moveSpeed);
+      if (isHeld('strafeRight')) targetVelocity.current.addScaledVector(right, -moveSpeed);
 
       if (targetVelocity.current.lengthSq() > moveSpeed * moveSpeed) {
         targetVelocity.current.normalize().multiplyScalar(moveSpeed);
@@ -144,6 +235,10 @@ export function Controls({ isInteracting = false }: ControlsProps) {
 
     const handleKeyDown = (event: KeyboardEvent) => {
       if (!isInteracting) {
+        if (MOVEMENT_ACTIONS.some(action => inputBindings.matches(action, event.code))) {
+          endNavigation('interrupted');
+          callbacks.current.onManualMove?.();
+        }
         activeKeys.current.add(event.code);
         updateTargetVelocity();
       }
@@ -159,6 +254,41 @@ export function Controls({ isInteracting = false }: ControlsProps) {
       const deltaTime = Math.min((currentTime - lastTime.current) / 1000, 0.1);
       lastTime.current = currentTime;
 
+      // Analog input changes without events, so it is sampled every frame
+      const gamepad = getGamepad();
+      const leftStick = readStick(gamepad, 'left');
+      analog.x = THREE.MathUtils.clamp((moveInput?.current.x ?? 0) + leftStick.x, -1, 1);
+      analog.y = THREE.MathUtils.clamp((moveInput?.current.y ?? 0) + leftStick.y, -1, 1);
+      const isAnalogActive = analog.x !== 0 || analog.y !== 0;
+      if (isAnalogActive && !isInteracting) {
+        if (!wasAnalogActive) {
+          endNavigation('interrupted');
+          callbacks.current.onManualMove?.();
+        }
+        updateTargetVelocity();
+      } else if (wasAnalogActive) {
+        updateTargetVelocity();
+      }
+      wasAnalogActive = isAnalogActive && !isInteracting;
+
+      const rightStick = readStick(gamepad, 'right');
+      if ((rightStick.x !== 0 || rightStick.y !== 0) && !isInteracting) {
+        lookEuler.setFromQuaternion(camera.quaternion);
+        lookEuler.y -= rightStick.x * STICK_LOOK_SPEED * deltaTime;
+        lookEuler.x = THREE.MathUtils.clamp(lookEuler.x + rightStick.y * STICK_LOOK_SPEED * deltaTime, -MAX_PITCH, MAX_PITCH);
+        camera.quaternion.setFromEuler(lookEuler);
+      }
+
+      // Moved by something else, such as the spawn point or leaving the orbit view:
+      // stand on whatever is below the eyes
+      if (followGround && !isInteracting && camera.position.y !== footing.current.cameraY) {
+        land(camera.position.x, camera.position.z, camera.position.y);
+      }
+
+      if (navigation.current && !isInteracting) {
+        steerTowards(navigation.current, deltaTime, currentTime);
+      }
+
       if (targetVelocity.current.lengthSq() > 0) {
         const lerpFactor = 1 - Math.exp(-acceleration * deltaTime);
         velocity.current.lerp(targetVelocity.current, lerpFactor);
@@ -168,29 +298,47 @@ export function Controls({ isInteracting = false }: ControlsProps) {
       }
 
       if (velocity.current.lengthSq() > 0.0001 && !isInteracting) {
-        const newPosition = camera.position.clone().add(
-          velocity.current.clone().multiplyScalar(deltaTime)
-        );
-        
-        if (!checkCollision(newPosition)) {
-          camera.position.copy(newPosition);
-        }
+        displacement.copy(velocity.current).multiplyScalar(deltaTime);
+        // The capsule hangs from the eyes as they would be without the step smoothing
+        body.set(camera.position.x, followGround ? footing.current.feet + eyeHeight : camera.position.y, camera.position.z);
+        const planes = moveCapsule(body, displacement, capsule, getColliderBoxes());
+        camera.position.x = body.x;
+        camera.position.z = body.z;
+        // Keep only the motion along what was hit, so pressing into a wall slides instead of shaking
+        slideVelocity(velocity.current, planes);
       }
 
-      requestAnimationFrame(animate);
+      if (followGround && !isInteracting) {
+        followFloor(deltaTime);
+      }
+
+      frameId = requestAnimationFrame(animate);
     };
 
+    let frameId = 0;
+    let wasAnalogActive = false;
+
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     animate();
 
     return () => {
+      cancelAnimationFrame(frameId);
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
-      walls.forEach(wall => scene.remove(wall));
-      wallColliders.current = [];
     };
-  }, [camera, scene, moveSpeed, acceleration, deceleration, collisionDistance, wallSlideForce, isInteracting]);
+  }, [
+    camera,
+    moveSpeed,
+    acceleration,
+    deceleration,
+    visitorRadius,
+    stepHeight,
+    eyeHeight,
+    isInteracting,
+    moveInput,
+    followGround
+  ]);
 
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { useEffect, useRef, type ReactNode } from 'react';
+import { Download, Magnet, Move3d, Redo2, Rotate3d, Scale3d, Undo2, Upload, X } from 'lucide-react';
+import type { EditorSettings, TransformMode } from '../editor';
+
+interface EditorToolbarProps {
+  settings: EditorSettings;
+  onSettingsChange: (settings: EditorSettings) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  importIssues: string[] | null;
+  onDismissIssues: () => void;
+}
+
+const MODES: { mode: TransformMode; label: string; shortcut: string; icon: ReactNode }[] = [
+  { mode: 'translate', label: 'Move', shortcut: '1', icon: <Move3d className="w-4 h-4" /> },
+  { mode: 'rotate', label: 'Rotate', shortcut: '2', icon: <Rotate3d className="w-4 h-4" /> },
+  { mode: 'scale', label: 'Scale', shortcut: '3', icon: <Scale3d className="w-4 h-4" /> }
+];
+
+function ToolbarButton({
+  active = false,
+  disabled = false,
+  title,
+  onClick,
+  children
+}: {
+  active?: boolean;
+  disabled?: boolean;
+  title: string;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      aria-label={title}
+      disabled={disabled}
+      onClick={onClick}
+      className={`p-2 rounded-lg transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed ${
+        active ? 'bg-white text-black' : 'bg-white/20 hover:bg-white/30 text-white'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function EditorToolbar({
+  settings,
+  onSettingsChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onExport,
+  onImport,
+  importIssues,
+  onDismissIssues
+}: EditorToolbarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          onRedo();
+        } else {
+          onUndo();
+        }
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyY') {
+        e.preventDefault();
+        onRedo();
+        return;
+      }
+
+      const shortcut = MODES.find(({ shortcut }) => e.key === shortcut);
+      if (shortcut) {
+        onSettingsChange({ ...settings, mode: shortcut.mode });
+      } else if (e.code === 'KeyG') {
+        onSettingsChange({ ...settings, snap: !settings.snap });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [settings, onSettingsChange, onUndo, onRedo]);
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2 select-none">
+      <div className="bg-black bg-opacity-75 p-2 rounded-lg flex items-center gap-1">
+        {MODES.map(({ mode, label, shortcut, icon }) => (
+          <ToolbarButton
+            key={mode}
+            title={`${label} (${shortcut})`}
+            active={settings.mode === mode}
+            onClick={() => onSettingsChange({ ...settings, mode })}
+          >
+            {icon}
+          </ToolbarButton>
+        ))}
+        <div className="w-px h-6 bg-white/20 mx-1" />
+        <ToolbarButton
+          title="Snap to grid (G)"
+          active={settings.snap}
+          onClick={() => onSettingsChange({ ...settings, snap: !settings.snap })}
+        >
+          <Magnet className="w-4 h-4" />
+        </ToolbarButton>
+        <div className="w-px h-6 bg-white/20 mx-1" />
+        <ToolbarButton title="Undo (Ctrl+Z)" disabled={!canUndo} onClick={onUndo}>
+          <Undo2 className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton title="Redo (Ctrl+Shift+Z)" disabled={!canRedo} onClick={onRedo}>
+          <Redo2 className="w-4 h-4" />
+        </ToolbarButton>
+        <div className="w-px h-6 bg-white/20 mx-1" />
+        <ToolbarButton title="Export layout" onClick={onExport}>
+          <Download className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton title="Import layout" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+        </ToolbarButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {importIssues && (
+        <div className="max-w-lg bg-black bg-opacity-75 border border-red-500/40 p-3 rounded-lg text-white text-sm">
+          <div className="flex items-start justify-between gap-4 mb-1">
+            <strong>The layout file could not be imported</strong>
+            <button onClick={onDismissIssues} aria-label="Dismiss" className="text-gray-300 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="font-mono text-xs text-red-300 list-disc list-inside space-y-0.5">
+            {importIssues.map(issue => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
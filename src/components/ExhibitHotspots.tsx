@@ -0,0 +1,82 @@
+import { useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { HotspotDefinition } from '../exhibition';
+
+interface ExhibitHotspotsProps {
+  hotspots: HotspotDefinition[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+}
+
+interface HotspotMarkerProps {
+  hotspot: HotspotDefinition;
+  number: number;
+  isActive: boolean;
+  onSelect: (id: string) => void;
+}
+
+function HotspotMarker({ hotspot, number, isActive, onSelect }: HotspotMarkerProps) {
+  const { camera } = useThree();
+  const anchorRef = useRef<THREE.Group>(null);
+  const markerRef = useRef<HTMLButtonElement>(null);
+  const normal = useMemo(
+    () => new THREE.Vector3(...(hotspot.normal ?? hotspot.position)).normalize(),
+    [hotspot.normal, hotspot.position]
+  );
+  const scratch = useMemo(() => ({ position: new THREE.Vector3(), normal: new THREE.Vector3() }), []);
+
+  // Hide the marker while its side of the model is turned away from the camera.
+  // Updated directly on the element, since it changes every frame the model turns
+  useFrame(() => {
+    const anchor = anchorRef.current;
+    const marker = markerRef.current;
+    if (!anchor || !marker) return;
+
+    anchor.getWorldPosition(scratch.position);
+    scratch.normal.copy(normal).transformDirection(anchor.matrixWorld);
+    const isFacing = scratch.normal.dot(scratch.position.sub(camera.position)) < 0;
+
+    marker.style.opacity = isFacing ? '1' : '0';
+    marker.style.pointerEvents = isFacing ? 'auto' : 'none';
+  });
+
+  return (
+    <group ref={anchorRef} position={hotspot.position}>
+      <Html center>
+        <button
+          ref={markerRef}
+          onClick={() => onSelect(hotspot.id)}
+          // Keep the press from also starting a drag that turns the exhibit
+          onMouseDown={e => e.stopPropagation()}
+          onTouchStart={e => e.stopPropagation()}
+          className={`w-7 h-7 rounded-full border-2 text-sm font-bold flex items-center justify-center shadow-lg transition-opacity duration-150 ${
+            isActive ? 'bg-white text-black border-black' : 'bg-black/70 text-white border-white hover:bg-black'
+          }`}
+          aria-label={`${number}. ${hotspot.title}`}
+          title={hotspot.title}
+        >
+          {number}
+        </button>
+      </Html>
+    </group>
+  );
+}
+
+/** Numbered markers pinned to an inspected exhibit; they turn with the model. */
+export function ExhibitHotspots({ hotspots, activeId, onSelect }: ExhibitHotspotsProps) {
+  return (
+    <>
+      {hotspots.map((hotspot, index) => (
+        <HotspotMarker
+          key={hotspot.id}
+          hotspot={hotspot}
+          number={index + 1}
+          isActive={hotspot.id === activeId}
+          onSelect={onSelect}
+        />
+      ))}
+    </>
+  );
+}
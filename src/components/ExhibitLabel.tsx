@@ -0,0 +1,99 @@
+import { useState, type ReactNode } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+import type { ExhibitMetadata } from '../exhibition';
+import { useTranslation } from '../i18n';
+
+interface ExhibitLabelProps {
+  title: string;
+  description: string;
+  metadata?: ExhibitMetadata;
+}
+
+function LabelSection({ title, children }: { title: string; children: ReactNode }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const Chevron = isOpen ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="border-t border-white/10 pt-2">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-1 text-xs uppercase tracking-wide text-gray-400 hover:text-white pointer-events-auto"
+        aria-expanded={isOpen}
+      >
+        <Chevron className="w-3 h-3" />
+        {title}
+      </button>
+      {isOpen && <div className="mt-2 text-sm text-gray-300 space-y-1">{children}</div>}
+    </div>
+  );
+}
+
+function LabelField({ label, value }: { label: string; value?: string }) {
+  if (!value) return null;
+  return (
+    <p>
+      <span className="text-gray-400">{label}: </span>
+      {value}
+    </p>
+  );
+}
+
+/** The inspection panel's museum label: tombstone lines up top, the rest in sections that open on demand. */
+export function ExhibitLabel({ title, description, metadata }: ExhibitLabelProps) {
+  const dateAndOrigin = [metadata?.date, metadata?.origin].filter(Boolean).join(', ');
+  const hasDetails = !!(metadata?.medium || metadata?.dimensions);
+  const hasProvenance = !!(metadata?.provenance || metadata?.creditLine);
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2 max-w-sm">
+      <div>
+        {metadata?.artist && <p className="text-sm font-semibold">{metadata.artist}</p>}
+        <h3 className="text-lg font-bold">{title}</h3>
+        {dateAndOrigin && <p className="text-sm text-gray-300">{dateAndOrigin}</p>}
+      </div>
+      <p className="text-sm text-gray-300">{description}</p>
+
+      {hasDetails && (
+        <LabelSection title={t('label.details')}>
+          <LabelField label={t('label.medium')} value={metadata?.medium} />
+          <LabelField label={t('label.dimensions')} value={metadata?.dimensions} />
+        </LabelSection>
+      )}
+      {hasProvenance && (
+        <LabelSection title={t('label.provenance')}>
+          {metadata?.provenance && <p>{metadata.provenance}</p>}
+          {metadata?.creditLine && <p className="text-gray-400">{metadata.creditLine}</p>}
+        </LabelSection>
+      )}
+      {!!metadata?.references.length && (
+        <LabelSection title={t('label.furtherReading')}>
+          <ul className="space-y-1">
+            {metadata.references.map(reference => (
+              <li key={reference.url}>
+                <a
+                  href={reference.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 underline hover:text-white pointer-events-auto"
+                >
+                  {reference.label}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </LabelSection>
+      )}
+      {!!metadata?.tags.length && (
+        <div className="flex flex-wrap gap-1">
+          {metadata.tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-full bg-white/10 text-xs text-gray-300">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import * as THREE from 'three';
+import { GltfModel } from './GltfModel';
+import { useAsset } from '../assets';
+import type { BoxModelDefinition, ExhibitModelDefinition } from '../exhibition';
+
+interface ExhibitModelProps {
+  model: ExhibitModelDefinition;
+}
+
+function BoxModel({ size, textureUrl }: BoxModelDefinition) {
+  const texture = useAsset('texture', textureUrl);
+
+  return (
+    <mesh castShadow>
+      <boxGeometry args={[size, size, size]} />
+      <meshStandardMaterial
+        map={texture}
+        transparent={true}
+        side={THREE.DoubleSide}
+        roughness={0.5}
+        metalness={0.5}
+      />
+    </mesh>
+  );
+}
+
+export function ExhibitModel({ model }: ExhibitModelProps) {
+  switch (model.type) {
+    case 'box':
+      return <BoxModel {...model} />;
+    case 'gltf':
+      return <GltfModel url={model.url} size={model.size} />;
+  }
+}
@@ -0,0 +1,121 @@
+import { Component, Suspense, useMemo, type ReactNode } from 'react';
+import { Html, useProgress } from '@react-three/drei';
+import * as THREE from 'three';
+import { AlertTriangle } from 'lucide-react';
+import { assetManager } from '../assets';
+import { useTranslation } from '../i18n';
+
+interface GltfModelProps {
+  url: string;
+  /** Largest dimension of the model once normalised, in metres. */
+  size: number;
+}
+
+interface ModelErrorBoundaryProps {
+  url: string;
+  size: number;
+  children: ReactNode;
+}
+
+interface ModelErrorBoundaryState {
+  error: Error | null;
+}
+
+// A function component, so the boundary's fallback can follow the visitor's language
+function ModelUnavailableNotice() {
+  const { t } = useTranslation();
+
+  return (
+    <div className="bg-black bg-opacity-75 px-3 py-2 rounded-lg text-white text-xs flex items-center gap-2 whitespace-nowrap">
+      <AlertTriangle className="w-4 h-4 text-red-400" />
+      {t('model.unavailable')}
+    </div>
+  );
+}
+
+class ModelErrorBoundary extends Component<ModelErrorBoundaryProps, ModelErrorBoundaryState> {
+  state: ModelErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ModelErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`Failed to load model: ${this.props.url}`, error);
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    const { size } = this.props;
+    return (
+      <group>
+        <mesh>
+          <boxGeometry args={[size, size, size]} />
+          <meshBasicMaterial color="#ef4444" wireframe />
+        </mesh>
+        <Html center style={{ pointerEvents: 'none' }}>
+          <ModelUnavailableNotice />
+        </Html>
+      </group>
+    );
+  }
+}
+
+function ModelLoadingIndicator({ size }: { size: number }) {
+  const progress = useProgress(state => state.progress);
+
+  return (
+    <group>
+      <mesh>
+        <boxGeometry args={[size, size, size]} />
+        <meshBasicMaterial color="#ffffff" wireframe transparent opacity={0.3} />
+      </mesh>
+      <Html center style={{ pointerEvents: 'none' }}>
+        <div className="bg-black bg-opacity-50 px-3 py-1 rounded-full text-white text-xs font-mono">
+          {Math.round(progress)}%
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+function NormalisedGltf({ url, size }: GltfModelProps) {
+  const { scene } = assetManager.read('model', url);
+
+  const model = useMemo(() => {
+    // The asset manager caches the scene per URL, so clone it for exhibits sharing a model
+    const root = scene.clone(true);
+    root.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        object.castShadow = true;
+        object.receiveShadow = true;
+      }
+    });
+
+    // Scale the largest dimension to `size` and move the pivot to the bounds' centre,
+    // so the model sits on its stand and rotates about its middle during inspection
+    const bounds = new THREE.Box3().setFromObject(root);
+    const dimensions = bounds.getSize(new THREE.Vector3());
+    const center = bounds.getCenter(new THREE.Vector3());
+    const scale = size / Math.max(dimensions.x, dimensions.y, dimensions.z, Number.EPSILON);
+
+    const pivot = new THREE.Group();
+    root.position.sub(center);
+    pivot.add(root);
+    pivot.scale.setScalar(scale);
+    return pivot;
+  }, [scene, size]);
+
+  return <primitive object={model} />;
+}
+
+export function GltfModel({ url, size }: GltfModelProps) {
+  return (
+    <ModelErrorBoundary url={url} size={size}>
+      <Suspense fallback={<ModelLoadingIndicator size={size} />}>
+        <NormalisedGltf url={url} size={size} />
+      </Suspense>
+    </ModelErrorBoundary>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Accessibility, Keyboard, RotateCcw, X } from 'lucide-react';
+import { INPUT_ACTIONS, inputBindings, useInputBindings, type InputAction } from '../input';
+import { useTranslation } from '../i18n';
+import { EYE_HEIGHT_PRESETS, MAX_EYE_HEIGHT, MIN_EYE_HEIGHT, useVisitorSettings, visitorSettings } from '../visitor';
+
+interface InputSettingsProps {
+  onClose: () => void;
+}
+
+export function InputSettings({ onClose }: InputSettingsProps) {
+  const bindings = useInputBindings();
+  const { eyeHeight } = useVisitorSettings();
+  const { t } = useTranslation();
+  const [listeningFor, setListeningFor] = useState<InputAction | null>(null);
+
+  // Capture the next key press for the action being rebound; Escape cancels
+  useEffect(() => {
+    if (!listeningFor) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code !== 'Escape') {
+        inputBindings.set(listeningFor, e.code);
+      }
+      setListeningFor(null);
+    };
+
+    // Capture phase, so the key does not also walk, inspect or open the floor plan
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listeningFor]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black bg-opacity-80 flex items-center justify-center p-8 select-none animate-fade-in"
+      // Keep PointerLockControls from re-locking when a button is clicked
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="w-full max-w-md bg-black bg-opacity-75 p-6 rounded-lg text-white">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Keyboard className="w-6 h-6" />
+            {t('inputSettings.title')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="bg-white/20 hover:bg-white/30 p-1.5 rounded-lg"
+            aria-label={t('inputSettings.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-300 mb-4">{t('inputSettings.help')}</p>
+        <ul className="space-y-1">
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <li key={action} className="flex items-center justify-between gap-4">
+              <span>{t(label)}</span>
+              <button
+                onClick={() => setListeningFor(action)}
+                className={`min-w-24 px-3 py-1.5 rounded-lg font-mono text-sm transition-colors duration-200 ${
+                  listeningFor === action ? 'bg-white text-black' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                {listeningFor === action ? t('inputSettings.listening') : inputBindings.getLabel(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={() => inputBindings.reset()}
+          className="mt-6 bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 w-full text-sm"
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t('inputSettings.reset')}
+        </button>
+
+        <div className="mt-6 pt-4 border-t border-white/20">
+          <h3 className="font-semibold mb-3 flex items-center gap-2">
+            <Accessibility className="w-4 h-4" />
+            {t('visitorSettings.eyeHeight')}
+          </h3>
+          <div className="flex gap-2 mb-3">
+            {EYE_HEIGHT_PRESETS.map(preset => (
+              <button
+                key={preset.preset}
+                onClick={() => visitorSettings.setEyeHeight(preset.eyeHeight)}
+                className={`flex-1 px-3 py-1.5 rounded-lg text-sm transition-colors duration-200 ${
+                  eyeHeight === preset.eyeHeight ? 'bg-white text-black' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                {t(preset.label)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={MIN_EYE_HEIGHT}
+              max={MAX_EYE_HEIGHT}
+              step={0.05}
+              value={eyeHeight}
+              onChange={e => visitorSettings.setEyeHeight(Number(e.target.value))}
+              className="flex-1 accent-white"
+              aria-label={t('visitorSettings.eyeHeight')}
+            />
+            <span className="w-14 text-right font-mono text-sm">{eyeHeight.toFixed(2)} m</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,57 +1,65 @@
 import { useRef, useState, useEffect } from 'react';
 import { TransformControls, Html } from '@react-three/drei';
-import { useThree } from '@react-three/fiber';
+import type { ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
+import { collisionRegistry, useCollider, type ColliderKind } from '../collision';
+import { getTransformControlsProps, readLayoutChange, type EditorSettings, type LayoutChange } from '../editor';
 
 interface InteractiveObjectProps {
+  id: string;
+  colliderKind: ColliderKind;
   position: [number, number, number];
   size: [number, number, number];
+  rotationY?: number;
   color: string;
   isSelected: boolean;
   onSelect: () => void;
   name: string;
+  editorSettings: EditorSettings;
+  onTransformEnd?: (change: LayoutChange) => void;
 }
 
-export function InteractiveObject({ position, size, color, isSelected, onSelect, name }: InteractiveObjectProps) {
+export function InteractiveObject({
+  id,
+  colliderKind,
+  position,
+  size,
+  rotationY = 0,
+  color,
+  isSelected,
+  onSelect,
+  name,
+  editorSettings,
+  onTransformEnd
+}: InteractiveObjectProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const [currentPosition, setCurrentPosition] = useState(position);
-  const { scene } = useThree();
-  
-  const handleClick = (e: THREE.Event) => {
-    e.stopPropagation();
-    onSelect();
-  };
 
+  useCollider(meshRef, { id, kind: colliderKind });
+
+  // Undo, redo and imports move the object through props
   useEffect(() => {
-    if (meshRef.current) {
-      setCurrentPosition([
-        meshRef.current.position.x,
-        meshRef.current.position.y,
-        meshRef.current.position.z
-      ]);
+    setCurrentPosition(position);
+  }, [position]);
 
-      // Find and update corresponding collision box
-      const collisionBox = scene.children.find(child => 
-        child instanceof THREE.Mesh && 
-        child.geometry instanceof THREE.BoxGeometry &&
-        child.material.visible === false &&
-        Math.abs(child.position.x - position[0]) < 0.1 &&
-        Math.abs(child.position.y - position[1]) < 0.1 &&
-        Math.abs(child.position.z - position[2]) < 0.1
-      );
+  // The mesh already has its new placement, but cached colliders still have the old one
+  useEffect(() => {
+    if (meshRef.current) collisionRegistry.touch(meshRef.current);
+  }, [position, size, rotationY]);
 
-      if (collisionBox) {
-        collisionBox.position.copy(meshRef.current.position);
-      }
-    }
-  }, [meshRef.current?.position.x, meshRef.current?.position.y, meshRef.current?.position.z, scene, position]);
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onSelect();
+  };
 
   return (
     <>
       <mesh
         ref={meshRef}
         position={position}
+        rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}
         castShadow
+        receiveShadow
         onClick={handleClick}
       >
         <boxGeometry args={size} />
@@ -76,7 +84,12 @@ export function InteractiveObject({ position, size, color, isSelected, onSelect,
         <>
           <TransformControls
             object={meshRef.current}
-            mode="translate"
+            {...getTransformControlsProps(editorSettings)}
+            onMouseUp={() => {
+              if (meshRef.current) {
+                onTransformEnd?.(readLayoutChange(meshRef.current, size));
+              }
+            }}
             onObjectChange={() => {
               if (meshRef.current) {
                 setCurrentPosition([
@@ -84,6 +97,7 @@ export function InteractiveObject({ position, size, color, isSelected, onSelect,
                   meshRef.current.position.y,
                   meshRef.current.position.z
                 ]);
+                collisionRegistry.touch(meshRef.current);
               }
             }}
           />
@@ -107,7 +121,8 @@ export function InteractiveObject({ position, size, color, isSelected, onSelect,
               <strong>{name}</strong><br />
               x: {currentPosition[0].toFixed(2)}<br />
               y: {currentPosition[1].toFixed(2)}<br />
-              z: {currentPosition[2].toFixed(2)}
+              z: {currentPosition[2].toFixed(2)}<br />
+              rotation: {rotationY.toFixed(0)}°
             </div>
           </Html>
         </>
@@ -1,46 +1,169 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, useMemo } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { Hand, X } from 'lucide-react';
+import { Hand, Pause, Rotate3d, RotateCcw, Volume2, X } from 'lucide-react';
+import { useCollider } from '../collision';
+import { useAudioSettings, useNarration } from '../audio';
+import { ExhibitHotspots } from './ExhibitHotspots';
+import { ExhibitLabel } from './ExhibitLabel';
+import { useTranslation } from '../i18n';
+import type { ExhibitMetadata, HotspotDefinition, InspectionDefinition } from '../exhibition';
+import { aimTargets, getGamepad, inputBindings, isButtonPressed, readStick, useInputBindings } from '../input';
 
 interface InteractiveObject3DProps {
+  id: string;
   position: [number, number, number];
   children: React.ReactNode;
   description: string;
   title: string;
+  /** Artist, date, provenance and the rest of the museum label. */
+  metadata?: ExhibitMetadata;
   interactionDistance?: number;
+  /** Framing and zoom and rotation limits while inspected; unset fields use the defaults. */
+  inspection?: InspectionDefinition;
+  /** Numbered notes pinned to the model, shown while it is inspected. */
+  hotspots?: HotspotDefinition[];
+  /** Spoken commentary that starts when the exhibit is picked up. */
+  narrationUrl?: string;
+  /** Inspect with one-finger drags and pinches instead of the mouse. */
+  touchMode?: boolean;
+  /** Show gamepad button prompts instead of mouse hints. */
+  gamepadConnected?: boolean;
   onInteractionChange?: (isInteracting: boolean) => void;
 }
 
+// Inspection settings for exhibits that leave them out of the manifest
+const DEFAULT_INSPECTION: Required<InspectionDefinition> = {
+  distance: 2,
+  minDistance: 1,
+  maxDistance: 3.5,
+  rotation: [0, 0],
+  maxPitch: 45,
+  maxYaw: 90,
+  trackball: false
+};
+
+const resolveInspection = (inspection: InspectionDefinition = {}) => {
+  const minDistance = inspection.minDistance ?? DEFAULT_INSPECTION.minDistance;
+  const maxDistance = Math.max(minDistance, inspection.maxDistance ?? DEFAULT_INSPECTION.maxDistance);
+  const [pitch, yaw] = inspection.rotation ?? DEFAULT_INSPECTION.rotation;
+  return {
+    distance: THREE.MathUtils.clamp(inspection.distance ?? DEFAULT_INSPECTION.distance, minDistance, maxDistance),
+    minDistance,
+    maxDistance,
+    framing: new THREE.Quaternion().setFromEuler(
+      new THREE.Euler(THREE.MathUtils.degToRad(pitch), THREE.MathUtils.degToRad(yaw), 0)
+    ),
+    maxPitch: THREE.MathUtils.degToRad(inspection.maxPitch ?? DEFAULT_INSPECTION.maxPitch),
+    maxYaw: THREE.MathUtils.degToRad(inspection.maxYaw ?? DEFAULT_INSPECTION.maxYaw),
+    trackball: inspection.trackball ?? DEFAULT_INSPECTION.trackball
+  };
+};
+
+const ZOOM_SMOOTHING = 0.2;
+const ROTATION_SMOOTHING = 0.1;
+// Radians turned per pixel dragged
+const DRAG_ROTATION_SPEED = 0.01;
+// Scroll wheel zoom: the distance is multiplied by e^(deltaY * speed)
+const WHEEL_ZOOM_SPEED = 0.001;
+// Panning moves the object about as far as the cursor at the held distance, but never too far off centre
+const PAN_SPEED = 0.0017;
+const MAX_PAN_OFFSET = 1;
+
+// A released drag keeps the object spinning, slowing down at this rate per second,
+// unless the pointer was held still for a moment before letting go
+const INERTIA_DAMPING = 4;
+const INERTIA_HOLD_TIME = 80;
+const MIN_INERTIA_SPEED = 5;
+const MAX_INERTIA_SPEED = 2000;
+
+// Gamepad right stick rotation, in drag pixels per second at full deflection
+const STICK_ROTATION_SPEED = 250;
+
+// Held keys turn the object like a drag of this many pixels per second, and zoom this many units per second
+const KEY_ROTATION_SPEED = 150;
+const KEY_ZOOM_SPEED = 1.5;
+
+// Drag direction of each rotation key. E is skipped while it is the interact key
+const ROTATION_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  KeyQ: [-1, 0],
+  KeyE: [1, 0]
+};
+
+// Zoom direction of each zoom key: + brings the object closer
+const ZOOM_KEYS: Record<string, number> = {
+  Equal: -1,
+  NumpadAdd: -1,
+  Minus: 1,
+  NumpadSubtract: 1
+};
+
 export function InteractiveObject3D({ 
+  id,
   position, 
   children, 
   description,
   title,
+  metadata,
   interactionDistance = 3,
+  inspection,
+  hotspots = [],
+  narrationUrl,
+  touchMode = false,
+  gamepadConnected = false,
   onInteractionChange
 }: InteractiveObject3DProps) {
   const groupRef = useRef<THREE.Group>(null);
-  const { camera, scene } = useThree();
+  const { camera, scene, gl } = useThree();
   const [isNearby, setIsNearby] = useState(false);
   const [isInspecting, setIsInspecting] = useState(false);
   const [showHand, setShowHand] = useState(false);
+  const [isTrackball, setIsTrackball] = useState(false);
+  const [activeHotspotId, setActiveHotspotId] = useState<string | null>(null);
   const originalPosition = useRef<THREE.Vector3>(new THREE.Vector3(...position));
   const originalRotation = useRef<THREE.Euler>(new THREE.Euler());
   const cameraPosition = useRef<THREE.Vector3>(new THREE.Vector3());
   const cameraRotation = useRef<THREE.Euler>(new THREE.Euler());
   const overlayRef = useRef<THREE.Mesh | null>(null);
   const isDragging = useRef(false);
+  const isPanning = useRef(false);
   const previousMousePosition = useRef({ x: 0, y: 0 });
-  const initialRotation = useRef<THREE.Euler>(new THREE.Euler());
-  const targetRotation = useRef<THREE.Euler>(new THREE.Euler());
+  const limitedRotation = useRef({ pitch: 0, yaw: 0 });
+  const targetQuaternion = useRef(new THREE.Quaternion());
+  const trackball = useRef(false);
+  const rotationVelocity = useRef({ x: 0, y: 0 });
+  const lastDragTime = useRef(0);
+  const panOffset = useRef(new THREE.Vector2());
+  const inspectionDirection = useRef(new THREE.Vector3());
+  const inspectionDistance = useRef(DEFAULT_INSPECTION.distance);
+  const pinchDistance = useRef(0);
+  const pinchCenter = useRef({ x: 0, y: 0 });
+  const gamepadButtons = useRef({ a: false, b: false });
+  const heldKeys = useRef(new Set<string>());
+  const bindings = useInputBindings();
+  const { t } = useTranslation();
   const autoRotationSpeed = 0.15;
+  const settings = useMemo(() => resolveInspection(inspection), [inspection]);
+  const activeHotspotIndex = hotspots.findIndex(hotspot => hotspot.id === activeHotspotId);
+  const activeHotspot = hotspots[activeHotspotIndex];
+  const narration = useNarration(id, narrationUrl, groupRef, isInspecting);
+  const audioSettings = useAudioSettings();
+  const hotspotAudio = useRef<HTMLAudioElement>(null);
+
+  // Hotspot audio plays outside the 3D audio graph, so it follows the master volume here
+  useEffect(() => {
+    if (!hotspotAudio.current) return;
+    hotspotAudio.current.volume = audioSettings.volume;
+    hotspotAudio.current.muted = audioSettings.muted;
+  }, [audioSettings, activeHotspot]);
 
-  // Constants for rotation limits (in radians)
-  const MAX_ROTATION_X = THREE.MathUtils.degToRad(45);
-  const MAX_ROTATION_Y = THREE.MathUtils.degToRad(90);
-  const ROTATION_SMOOTHING = 0.1;
+  // The exhibit blocks the visitor while on display, but not while held up for inspection
+  useCollider(groupRef, { id, kind: 'exhibit', enabled: !isInspecting });
 
   // Handle cursor and camera state changes
   useEffect(() => {
@@ -67,6 +190,16 @@ export function InteractiveObject3D({
     };
   }, [isInspecting, isDragging.current, camera]);
 
+  // Inspection needs the cursor to drag the object around. PointerLockControls
+  // re-locks on any document click, so release the pointer after the click that
+  // picked the object up has finished propagating
+  useEffect(() => {
+    if (!isInspecting || touchMode) return;
+
+    const timer = setTimeout(() => document.exitPointerLock?.(), 0);
+    return () => clearTimeout(timer);
+  }, [isInspecting, touchMode]);
+
   // Handle overlay creation/removal
   useEffect(() => {
     if (isInspecting && !overlayRef.current) {
@@ -101,16 +234,67 @@ export function InteractiveObject3D({
   useFrame((_, delta) => {
     if (!groupRef.current) return;
 
+    // Gamepad: A inspects the exhibit being aimed at, B puts it back, the right stick turns it
+    const gamepad = getGamepad();
+    const aPressed = isButtonPressed(gamepad, 'a');
+    const bPressed = isButtonPressed(gamepad, 'b');
+    if (aPressed && !gamepadButtons.current.a && showHand && aimTargets.isNearest(id)) {
+      handleClick();
+    } else if (bPressed && !gamepadButtons.current.b && isInspecting) {
+      // Pointer lock needs a user gesture, which a gamepad button is not; the stick looks around anyway
+      handleExitInspection(false);
+    }
+    gamepadButtons.current = { a: aPressed, b: bPressed };
+
+    if (isInspecting) {
+      const stick = readStick(gamepad, 'right');
+      if (stick.x !== 0 || stick.y !== 0) {
+        rotateBy(stick.x * STICK_ROTATION_SPEED * delta, -stick.y * STICK_ROTATION_SPEED * delta);
+      }
+
+      // Keyboard: held rotation keys turn the object, held zoom keys move it closer or further
+      let keyX = 0;
+      let keyY = 0;
+      let zoom = 0;
+      heldKeys.current.forEach(code => {
+        if (ROTATION_KEYS[code]) {
+          keyX += ROTATION_KEYS[code][0];
+          keyY += ROTATION_KEYS[code][1];
+        }
+        zoom += ZOOM_KEYS[code] ?? 0;
+      });
+      if (keyX !== 0 || keyY !== 0) {
+        rotateBy(keyX * KEY_ROTATION_SPEED * delta, keyY * KEY_ROTATION_SPEED * delta);
+      }
+      if (zoom !== 0) {
+        zoomTo(inspectionDistance.current + zoom * KEY_ZOOM_SPEED * delta);
+      }
+
+      // Inertia: a released drag carries on turning the object and slowly comes to rest
+      const velocity = rotationVelocity.current;
+      if (!isDragging.current && Math.hypot(velocity.x, velocity.y) > MIN_INERTIA_SPEED) {
+        rotateBy(velocity.x * delta, velocity.y * delta);
+        const decay = Math.exp(-INERTIA_DAMPING * delta);
+        velocity.x *= decay;
+        velocity.y *= decay;
+      }
+    }
+
     if (isInspecting) {
       // State 2: Inspection Mode
       // Lock camera position during inspection
       camera.position.copy(cameraPosition.current);
       camera.rotation.copy(cameraRotation.current);
 
+      // Hold the object in front of the camera at the zoomed distance, shifted by the pan
+      const heldPosition = cameraPosition.current.clone()
+        .addScaledVector(inspectionDirection.current, inspectionDistance.current)
+        .add(new THREE.Vector3(panOffset.current.x, panOffset.current.y, 0).applyQuaternion(camera.quaternion));
+      groupRef.current.position.lerp(heldPosition, ZOOM_SMOOTHING);
+
       // Apply smooth rotation only when not dragging
       if (!isDragging.current) {
-        groupRef.current.rotation.x += (targetRotation.current.x - groupRef.current.rotation.x) * ROTATION_SMOOTHING;
-        groupRef.current.rotation.y += (targetRotation.current.y - groupRef.current.rotation.y) * ROTATION_SMOOTHING;
+        groupRef.current.quaternion.slerp(targetQuaternion.current, ROTATION_SMOOTHING);
       }
 
       // Update overlay position
@@ -156,26 +340,36 @@ export function InteractiveObject3D({
         objectDirection.subVectors(groupRef.current.position, camera.position).normalize();
         
         const angle = direction.angleTo(objectDirection);
-        setShowHand(angle < 0.5 && !isInspecting);
+        const isAimed = angle < 0.5 && !isInspecting;
+        setShowHand(isAimed);
+        if (isAimed) {
+          aimTargets.set(id, distance);
+        } else {
+          aimTargets.remove(id);
+        }
       } else {
         setShowHand(false);
+        aimTargets.remove(id);
       }
     };
 
+    let frameId = 0;
     const animate = () => {
       if (!isInspecting) {
         checkDistance();
       }
-      requestAnimationFrame(animate);
+      frameId = requestAnimationFrame(animate);
     };
 
     animate();
 
     return () => {
+      cancelAnimationFrame(frameId);
+      aimTargets.remove(id);
       setShowHand(false);
       setIsNearby(false);
     };
-  }, [camera, interactionDistance, isInspecting]);
+  }, [id, camera, interactionDistance, isInspecting]);
 
   const handleClick = () => {
     if (!isNearby || !groupRef.current || isInspecting) return;
@@ -184,75 +378,272 @@ export function InteractiveObject3D({
     originalPosition.current.copy(groupRef.current.position);
     originalRotation.current.copy(groupRef.current.rotation);
     
-    // Position object in front of camera
-    const distance = 2;
-    const cameraDirection = new THREE.Vector3();
-    camera.getWorldDirection(cameraDirection);
-    
+    // Position object in front of camera, framed the way the exhibit asks for
+    camera.getWorldDirection(inspectionDirection.current);
+    trackball.current = settings.trackball;
+    setIsTrackball(settings.trackball);
+    resetView();
+
     const newPosition = camera.position.clone()
-      .add(cameraDirection.multiplyScalar(distance));
-    
-    // Reset object rotation for inspection
+      .addScaledVector(inspectionDirection.current, inspectionDistance.current);
     groupRef.current.position.copy(newPosition);
-    groupRef.current.rotation.set(0, 0, 0);
-    initialRotation.current.set(0, 0, 0);
-    targetRotation.current.set(0, 0, 0);
+    groupRef.current.quaternion.copy(targetQuaternion.current);
     
+    aimTargets.engage(id);
     setIsInspecting(true);
     onInteractionChange?.(true);
   };
 
-  const handleExitInspection = () => {
+  const handleExitInspection = (returnToPointerLock = true) => {
     if (!groupRef.current) return;
 
     // Restore original state
     groupRef.current.position.copy(originalPosition.current);
     groupRef.current.rotation.copy(originalRotation.current);
     
+    aimTargets.release(id);
     setIsInspecting(false);
     onInteractionChange?.(false);
     isDragging.current = false;
+    isPanning.current = false;
+    heldKeys.current.clear();
+    setActiveHotspotId(null);
+
+    // Carry on walking straight away: a click or key press lets the browser lock the pointer again
+    if (returnToPointerLock && !touchMode) {
+      gl.domElement.focus();
+      gl.domElement.requestPointerLock()?.catch(() => {});
+    }
+  };
+
+  // Keyboard: the inspect key picks up the nearest exhibit being aimed at; while
+  // inspecting, Esc, the exit key or the inspect key put it back, the arrow keys
+  // (and Q/E) turn it and +/- zoom
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Another exhibit already handled this key press
+      if (e.defaultPrevented) return;
+
+      const isInspectKey = inputBindings.matches('inspect', e.code);
+      if (!isInspecting) {
+        if (isInspectKey && !e.repeat && showHand && aimTargets.isNearest(id)) {
+          e.preventDefault();
+          handleClick();
+        }
+        return;
+      }
+
+      if (e.code === 'Escape' || isInspectKey || inputBindings.matches('exit', e.code)) {
+        e.preventDefault();
+        // Holding the interact key down must not put the object straight back
+        if (!e.repeat) handleExitInspection();
+      } else if (ROTATION_KEYS[e.code] || ZOOM_KEYS[e.code]) {
+        // Keep the arrow keys from scrolling the page
+        e.preventDefault();
+        heldKeys.current.add(e.code);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      heldKeys.current.delete(e.code);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  });
+
+  const zoomTo = (distance: number) => {
+    inspectionDistance.current = THREE.MathUtils.clamp(distance, settings.minDistance, settings.maxDistance);
+  };
+
+  const panBy = (deltaX: number, deltaY: number) => {
+    // Screen pixels to world units at the held distance; screen y points down
+    const scale = PAN_SPEED * inspectionDistance.current;
+    panOffset.current.x += deltaX * scale;
+    panOffset.current.y -= deltaY * scale;
+    panOffset.current.clampLength(0, MAX_PAN_OFFSET);
+  };
+
+  const resetOrientation = () => {
+    limitedRotation.current = { pitch: 0, yaw: 0 };
+    rotationVelocity.current = { x: 0, y: 0 };
+    targetQuaternion.current.copy(settings.framing);
+  };
+
+  const resetView = () => {
+    resetOrientation();
+    inspectionDistance.current = settings.distance;
+    panOffset.current.set(0, 0);
+  };
+
+  const toggleTrackball = () => {
+    trackball.current = !trackball.current;
+    setIsTrackball(trackball.current);
+    // The pitch and yaw limits are measured from the starting orientation
+    if (!trackball.current) {
+      resetOrientation();
+    }
+  };
+
+  // Choosing the open hotspot again closes its note
+  const toggleHotspot = (hotspotId: string) => {
+    setActiveHotspotId(current => (current === hotspotId ? null : hotspotId));
   };
 
+  const rotateBy = (deltaX: number, deltaY: number) => {
+    if (!groupRef.current) return;
+
+    const angleX = deltaX * DRAG_ROTATION_SPEED;
+    const angleY = deltaY * DRAG_ROTATION_SPEED;
+
+    if (trackball.current) {
+      // Turn about the camera's own axes, so a drag always moves the side facing the visitor
+      const up = new THREE.Vector3(0, 1, 0).applyQuaternion(camera.quaternion);
+      const right = new THREE.Vector3(1, 0, 0).applyQuaternion(camera.quaternion);
+      const turn = new THREE.Quaternion();
+      targetQuaternion.current
+        .premultiply(turn.setFromAxisAngle(up, angleX))
+        .premultiply(turn.setFromAxisAngle(right, angleY));
+    } else {
+      // Apply rotation limits around the starting orientation
+      const limited = limitedRotation.current;
+      limited.yaw = THREE.MathUtils.clamp(limited.yaw + angleX, -settings.maxYaw, settings.maxYaw);
+      limited.pitch = THREE.MathUtils.clamp(limited.pitch + angleY, -settings.maxPitch, settings.maxPitch);
+      targetQuaternion.current
+        .setFromEuler(new THREE.Euler(limited.pitch, limited.yaw, 0))
+        .premultiply(settings.framing);
+    }
+
+    // Direct update during drag
+    if (isDragging.current) {
+      groupRef.current.quaternion.copy(targetQuaternion.current);
+    }
+  };
+
+  // Rotate by a drag and remember how fast it went, for the inertia after release
+  const dragBy = (deltaX: number, deltaY: number) => {
+    const now = performance.now();
+    const seconds = Math.max(1, now - lastDragTime.current) / 1000;
+    const speed = (delta: number) => THREE.MathUtils.clamp(delta / seconds, -MAX_INERTIA_SPEED, MAX_INERTIA_SPEED);
+    rotationVelocity.current = {
+      x: (rotationVelocity.current.x + speed(deltaX)) / 2,
+      y: (rotationVelocity.current.y + speed(deltaY)) / 2
+    };
+    lastDragTime.current = now;
+    rotateBy(deltaX, deltaY);
+  };
+
+  const startDrag = (x: number, y: number) => {
+    isDragging.current = true;
+    previousMousePosition.current = { x, y };
+    rotationVelocity.current = { x: 0, y: 0 };
+    lastDragTime.current = performance.now();
+  };
+
+  const endDrag = () => {
+    isDragging.current = false;
+    // Letting go of a pointer that was held still should not fling the object
+    if (performance.now() - lastDragTime.current > INERTIA_HOLD_TIME) {
+      rotationVelocity.current = { x: 0, y: 0 };
+    }
+  };
+
+  // The left button turns the object; the right button or a shift-drag pans it
   const handleMouseDown = (e: MouseEvent) => {
     if (!isInspecting) return;
-    isDragging.current = true;
-    previousMousePosition.current = { x: e.clientX, y: e.clientY };
+    if (e.button === 2 || e.shiftKey) {
+      isPanning.current = true;
+      previousMousePosition.current = { x: e.clientX, y: e.clientY };
+    } else {
+      startDrag(e.clientX, e.clientY);
+    }
     document.body.style.cursor = 'grabbing';
   };
 
   const handleMouseMove = (e: MouseEvent) => {
-    if (!isDragging.current || !groupRef.current || !isInspecting) return;
+    if (!groupRef.current || !isInspecting) return;
 
     const deltaX = e.clientX - previousMousePosition.current.x;
     const deltaY = e.clientY - previousMousePosition.current.y;
+    if (isPanning.current) {
+      panBy(deltaX, deltaY);
+    } else if (isDragging.current) {
+      dragBy(deltaX, deltaY);
+    } else {
+      return;
+    }
+    previousMousePosition.current = { x: e.clientX, y: e.clientY };
+  };
 
-    // Calculate new rotations
-    const newRotationY = groupRef.current.rotation.y + deltaX * 0.01;
-    const newRotationX = groupRef.current.rotation.x + deltaY * 0.01;
+  const handleWheel = (e: WheelEvent) => {
+    if (!isInspecting) return;
+    zoomTo(inspectionDistance.current * Math.exp(e.deltaY * WHEEL_ZOOM_SPEED));
+  };
 
-    // Apply rotation limits
-    targetRotation.current.y = THREE.MathUtils.clamp(
-      newRotationY,
-      initialRotation.current.y - MAX_ROTATION_Y,
-      initialRotation.current.y + MAX_ROTATION_Y
-    );
+  const handleContextMenu = (e: MouseEvent) => {
+    // The right button pans instead
+    if (isInspecting) e.preventDefault();
+  };
 
-    targetRotation.current.x = THREE.MathUtils.clamp(
-      newRotationX,
-      initialRotation.current.x - MAX_ROTATION_X,
-      initialRotation.current.x + MAX_ROTATION_X
-    );
+  const getPinchDistance = (touches: TouchList) =>
+    Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
 
-    // Direct update during drag
-    groupRef.current.rotation.copy(targetRotation.current);
+  const getPinchCenter = (touches: TouchList) => ({
+    x: (touches[0].clientX + touches[1].clientX) / 2,
+    y: (touches[0].clientY + touches[1].clientY) / 2
+  });
 
-    previousMousePosition.current = { x: e.clientX, y: e.clientY };
+  // One finger rotates like a mouse drag, two fingers pinch to zoom and move together to pan
+  const handleTouchStart = (e: TouchEvent) => {
+    if (!isInspecting) return;
+    if (e.touches.length === 1) {
+      startDrag(e.touches[0].clientX, e.touches[0].clientY);
+    } else if (e.touches.length === 2) {
+      isDragging.current = false;
+      rotationVelocity.current = { x: 0, y: 0 };
+      pinchDistance.current = getPinchDistance(e.touches);
+      pinchCenter.current = getPinchCenter(e.touches);
+    }
+  };
+
+  const handleTouchMove = (e: TouchEvent) => {
+    if (!isInspecting) return;
+    // Stop the browser from scrolling or zooming the page
+    e.preventDefault();
+
+    if (e.touches.length === 1 && isDragging.current) {
+      const touch = e.touches[0];
+      dragBy(touch.clientX - previousMousePosition.current.x, touch.clientY - previousMousePosition.current.y);
+      previousMousePosition.current = { x: touch.clientX, y: touch.clientY };
+    } else if (e.touches.length === 2 && pinchDistance.current > 0) {
+      const distance = getPinchDistance(e.touches);
+      zoomTo(inspectionDistance.current * (pinchDistance.current / distance));
+      pinchDistance.current = distance;
+
+      const center = getPinchCenter(e.touches);
+      panBy(center.x - pinchCenter.current.x, center.y - pinchCenter.current.y);
+      pinchCenter.current = center;
+    }
+  };
+
+  const handleTouchEnd = (e: TouchEvent) => {
+    pinchDistance.current = 0;
+    // Lifting one finger of a pinch carries on rotating with the other
+    if (e.touches.length === 1) {
+      startDrag(e.touches[0].clientX, e.touches[0].clientY);
+    } else if (isDragging.current) {
+      endDrag();
+    }
   };
 
   const handleMouseUp = () => {
     if (!isInspecting) return;
-    isDragging.current = false;
+    if (isDragging.current) endDrag();
+    isPanning.current = false;
     document.body.style.cursor = 'grab';
   };
 
@@ -262,12 +653,24 @@ export function InteractiveObject3D({
       window.addEventListener('mousedown', handleMouseDown);
       window.addEventListener('mousemove', handleMouseMove);
       window.addEventListener('mouseup', handleMouseUp);
+      window.addEventListener('wheel', handleWheel);
+      window.addEventListener('contextmenu', handleContextMenu);
+      window.addEventListener('touchstart', handleTouchStart);
+      window.addEventListener('touchmove', handleTouchMove, { passive: false });
+      window.addEventListener('touchend', handleTouchEnd);
+      window.addEventListener('touchcancel', handleTouchEnd);
     }
 
     return () => {
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('touchcancel', handleTouchEnd);
     };
   }, [isInspecting]);
 
@@ -278,6 +681,10 @@ export function InteractiveObject3D({
       onClick={handleClick}
     >
       {children}
+
+      {isInspecting && (
+        <ExhibitHotspots hotspots={hotspots} activeId={activeHotspotId} onSelect={toggleHotspot} />
+      )}
       
       {showHand && !isInspecting && (
         <Html
@@ -285,8 +692,17 @@ export function InteractiveObject3D({
           position={[0, 1.5, 0]}
           style={{ pointerEvents: 'none' }}
         >
-          <div className="bg-black bg-opacity-50 p-2 rounded-full transform -translate-y-full">
+          <div className="bg-black bg-opacity-50 p-2 rounded-full transform -translate-y-full flex items-center gap-1">
             <Hand className="w-6 h-6 text-white" />
+            {gamepadConnected ? (
+              <span className="w-6 h-6 rounded-full bg-green-600 text-white text-xs font-bold flex items-center justify-center">
+                A
+              </span>
+            ) : !touchMode && (
+              <kbd className="min-w-6 h-6 px-1 rounded bg-white/20 text-white text-xs font-bold flex items-center justify-center">
+                {inputBindings.getLabel(bindings.inspect)}
+              </kbd>
+            )}
           </div>
         </Html>
       )}
@@ -303,19 +719,83 @@ export function InteractiveObject3D({
         >
           <div className="bg-black bg-opacity-75 p-4 rounded-lg text-white select-none">
             <div className="space-y-3">
-              <div>
-                <h3 className="text-lg font-bold">{title}</h3>
-                <p className="text-sm text-gray-300">{description}</p>
-              </div>
+              <ExhibitLabel title={title} description={description} metadata={metadata} />
+              {narrationUrl && (
+                <button
+                  onClick={narration.toggle}
+                  className="bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 w-full pointer-events-auto text-sm"
+                >
+                  {narration.isPlaying ? <Pause className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                  {narration.isPlaying ? t('inspection.pauseNarration') : t('inspection.playNarration')}
+                </button>
+              )}
+              {activeHotspot && (
+                <div className="bg-white/10 p-3 rounded-lg space-y-2 max-w-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="font-bold">
+                      {activeHotspotIndex + 1}. {activeHotspot.title}
+                    </h4>
+                    <button
+                      onClick={() => setActiveHotspotId(null)}
+                      className="bg-white/20 hover:bg-white/30 p-1 rounded pointer-events-auto"
+                      aria-label={t('inspection.closeNote')}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                  {activeHotspot.imageUrl && (
+                    <img src={activeHotspot.imageUrl} alt={activeHotspot.title} className="max-h-40 rounded" />
+                  )}
+                  {activeHotspot.text && <p className="text-sm text-gray-300">{activeHotspot.text}</p>}
+                  {activeHotspot.audioUrl && (
+                    <audio
+                      ref={hotspotAudio}
+                      key={activeHotspot.id}
+                      src={activeHotspot.audioUrl}
+                      // One voice at a time: a hotspot's audio pauses the exhibit narration
+                      onPlay={() => narration.isPlaying && narration.toggle()}
+                      controls
+                      className="w-full pointer-events-auto"
+                    />
+                  )}
+                </div>
+              )}
+              {hotspots.length > 0 && !activeHotspot && (
+                <div className="text-xs text-gray-400">{t('inspection.hotspotsHint')}</div>
+              )}
               <div className="text-xs text-gray-400">
-                Click and drag to rotate the object
+                {gamepadConnected
+                  ? t('inspection.hintGamepad')
+                  : touchMode
+                    ? t('inspection.hintTouch')
+                    : t('inspection.hintDesktop')}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={resetView}
+                  className="bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 flex-1 pointer-events-auto text-sm"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {t('inspection.resetView')}
+                </button>
+                <button
+                  onClick={toggleTrackball}
+                  className={`px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 flex-1 pointer-events-auto text-sm ${
+                    isTrackball ? 'bg-white text-black' : 'bg-white/20 hover:bg-white/30 text-white'
+                  }`}
+                  aria-pressed={isTrackball}
+                  title={t('inspection.freeRotationHint')}
+                >
+                  <Rotate3d className="w-4 h-4" />
+                  {t('inspection.freeRotation')}
+                </button>
               </div>
               <button
-                onClick={handleExitInspection}
+                onClick={() => handleExitInspection()}
                 className="bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 w-full pointer-events-auto text-sm"
               >
                 <X className="w-4 h-4" />
-                Exit Inspection
+                {t('inspection.exit')}
               </button>
             </div>
           </div>
@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react';
+import { Check, Map as MapIcon, Maximize2, Minimize2, Video, X } from 'lucide-react';
+import type { Exhibition, PlatformDefinition, StandDefinition, WallDefinition } from '../exhibition';
+import { getExhibitMarkers, type ExhibitMarker, type VisitorPose } from '../navigation';
+import { inputBindings, useInputBindings } from '../input';
+import { useTranslation } from '../i18n';
+
+interface MinimapProps {
+  exhibition: Exhibition;
+  visitorPose: MutableRefObject<VisitorPose>;
+  visitedIds: Set<string>;
+  onVisit: (id: string) => void;
+  onNavigate: (marker: ExhibitMarker) => void;
+  /** False while an exhibit is being inspected: the minimap hides and the floor plan cannot open. */
+  canOpenPlan: boolean;
+  onPlanOpenChange: (isOpen: boolean) => void;
+}
+
+// Slack on top of the viewing distance before an exhibit counts as visited
+const VISIT_MARGIN = 0.5;
+
+interface FloorPlanProps {
+  exhibition: Exhibition;
+  markers: ExhibitMarker[];
+  visitedIds: Set<string>;
+  showLabels: boolean;
+  visitorRef: MutableRefObject<SVGGElement | null>;
+  onMarkerClick: (marker: ExhibitMarker) => void;
+}
+
+function LayoutRect({ item, fill }: { item: WallDefinition | StandDefinition | PlatformDefinition; fill: string }) {
+  return (
+    <rect
+      x={-item.size[0] / 2}
+      y={-item.size[2] / 2}
+      width={item.size[0]}
+      height={item.size[2]}
+      // Three.js turns +x towards -z for positive angles, SVG the other way
+      transform={`translate(${item.position[0]} ${item.position[2]}) rotate(${-item.rotationY})`}
+      fill={fill}
+    />
+  );
+}
+
+function FloorPlan({ exhibition, markers, visitedIds, showLabels, visitorRef, onMarkerClick }: FloorPlanProps) {
+  const bounds = useMemo(() => {
+    const floors = exhibition.rooms.map(({ floor }) => ({
+      minX: floor.center[0] - floor.size[0] / 2,
+      maxX: floor.center[0] + floor.size[0] / 2,
+      minZ: floor.center[1] - floor.size[1] / 2,
+      maxZ: floor.center[1] + floor.size[1] / 2
+    }));
+    return {
+      minX: Math.min(...floors.map(floor => floor.minX)),
+      maxX: Math.max(...floors.map(floor => floor.maxX)),
+      minZ: Math.min(...floors.map(floor => floor.minZ)),
+      maxZ: Math.max(...floors.map(floor => floor.maxZ))
+    };
+  }, [exhibition]);
+
+  const markerRadius = showLabels ? 0.45 : 0.6;
+
+  return (
+    <svg
+      viewBox={`${bounds.minX} ${bounds.minZ} ${bounds.maxX - bounds.minX} ${bounds.maxZ - bounds.minZ}`}
+      className="w-full h-full"
+    >
+      {exhibition.rooms.map(room => (
+        <g key={room.id}>
+          <rect
+            x={room.floor.center[0] - room.floor.size[0] / 2}
+            y={room.floor.center[1] - room.floor.size[1] / 2}
+            width={room.floor.size[0]}
+            height={room.floor.size[1]}
+            fill="rgba(255,255,255,0.08)"
+            stroke="rgba(255,255,255,0.15)"
+            strokeWidth={0.05}
+          />
+          {showLabels && (
+            <text
+              x={room.floor.center[0]}
+              y={room.floor.center[1] - room.floor.size[1] / 2 + 1}
+              textAnchor="middle"
+              fontSize={0.7}
+              fill="rgba(255,255,255,0.5)"
+            >
+              {room.name}
+            </text>
+          )}
+          {room.platforms.map(platform => (
+            <LayoutRect key={platform.id} item={platform} fill="rgba(255,255,255,0.15)" />
+          ))}
+          {room.walls.map(wall => (
+            <LayoutRect key={wall.id} item={wall} fill="rgba(255,255,255,0.85)" />
+          ))}
+          {room.stands.map(stand => (
+            <LayoutRect key={stand.id} item={stand} fill="rgba(96,165,250,0.6)" />
+          ))}
+        </g>
+      ))}
+
+      {markers.map(marker => {
+        const visited = visitedIds.has(marker.id);
+        return (
+          <g
+            key={marker.id}
+            transform={`translate(${marker.position[0]} ${marker.position[2]})`}
+            className="cursor-pointer"
+            onClick={() => onMarkerClick(marker)}
+          >
+            <title>{marker.title}</title>
+            <circle
+              r={markerRadius}
+              fill={visited ? 'rgba(255,255,255,0.35)' : '#facc15'}
+              stroke="#000000"
+              strokeWidth={0.08}
+            />
+            {marker.kind === 'screen' && (
+              <rect x={-0.2} y={-0.14} width={0.4} height={0.28} fill="#000000" />
+            )}
+            {showLabels && (
+              <text y={markerRadius + 0.8} textAnchor="middle" fontSize={0.55} fill="#ffffff">
+                {marker.title}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <g ref={visitorRef}>
+        <circle r={0.5} fill="rgba(239,68,68,0.25)" />
+        <polygon points="0.6,0 -0.35,0.35 -0.15,0 -0.35,-0.35" fill="#ef4444" />
+      </g>
+    </svg>
+  );
+}
+
+export function Minimap({
+  exhibition,
+  visitorPose,
+  visitedIds,
+  onVisit,
+  onNavigate,
+  canOpenPlan,
+  onPlanOpenChange
+}: MinimapProps) {
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
+  const minimapVisitor = useRef<SVGGElement | null>(null);
+  const planVisitor = useRef<SVGGElement | null>(null);
+  const markers = useMemo(() => getExhibitMarkers(exhibition), [exhibition]);
+  const bindings = useInputBindings();
+  const planKey = inputBindings.getLabel(bindings.floorPlan);
+  const { t } = useTranslation();
+
+  const setPlanOpen = useCallback((isOpen: boolean) => {
+    if (isOpen) {
+      // The plan needs a cursor to pick exhibits
+      document.exitPointerLock?.();
+    }
+    setIsPlanOpen(isOpen);
+    onPlanOpenChange(isOpen);
+  }, [onPlanOpenChange]);
+
+  // Follow the visitor without re-rendering: move the arrow directly each frame
+  // and mark exhibits as visited once the visitor has stood in front of them
+  useEffect(() => {
+    let frameId = 0;
+    const update = () => {
+      const { x, z, heading } = visitorPose.current;
+      const transform = `translate(${x} ${z}) rotate(${(heading * 180) / Math.PI})`;
+      minimapVisitor.current?.setAttribute('transform', transform);
+      planVisitor.current?.setAttribute('transform', transform);
+
+      markers.forEach(marker => {
+        if (visitedIds.has(marker.id)) return;
+        const distance = Math.hypot(marker.position[0] - x, marker.position[2] - z);
+        if (distance < marker.viewingDistance + VISIT_MARGIN) {
+          onVisit(marker.id);
+        }
+      });
+
+      frameId = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [visitorPose, markers, visitedIds, onVisit]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!inputBindings.matches('floorPlan', e.code)) return;
+      if (isPlanOpen) {
+        setPlanOpen(false);
+      } else if (canOpenPlan) {
+        setPlanOpen(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPlanOpen, canOpenPlan, setPlanOpen]);
+
+  const handleMarkerClick = (marker: ExhibitMarker) => {
+    if (isPlanOpen) {
+      setPlanOpen(false);
+    }
+    onNavigate(marker);
+  };
+
+  const visitedCount = markers.filter(marker => visitedIds.has(marker.id)).length;
+
+  return (
+    <>
+      {!isPlanOpen && canOpenPlan && (
+        <div
+          className="fixed top-4 right-4 w-48 h-48 bg-black bg-opacity-60 rounded-lg p-2 select-none z-30"
+          // Keep PointerLockControls from re-locking when a marker is clicked
+          onClick={e => e.stopPropagation()}
+        >
+          <FloorPlan
+            exhibition={exhibition}
+            markers={markers}
+            visitedIds={visitedIds}
+            showLabels={false}
+            visitorRef={minimapVisitor}
+            onMarkerClick={handleMarkerClick}
+          />
+          <button
+            onClick={() => setPlanOpen(true)}
+            className="absolute top-1 right-1 bg-black/40 hover:bg-black/60 text-white p-1 rounded"
+            aria-label={t('minimap.open')}
+            title={t('minimap.openWithKey', { key: planKey })}
+          >
+            <Maximize2 className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {isPlanOpen && (
+        <div
+          className="fixed inset-0 z-50 bg-black bg-opacity-80 flex items-center justify-center p-8 select-none animate-fade-in"
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="flex gap-6 w-full max-w-5xl h-full max-h-[80vh]">
+            <div className="flex-1 bg-white/5 rounded-lg p-4">
+              <FloorPlan
+                exhibition={exhibition}
+                markers={markers}
+                visitedIds={visitedIds}
+                showLabels
+                visitorRef={planVisitor}
+                onMarkerClick={handleMarkerClick}
+              />
+            </div>
+            <div className="w-72 flex flex-col text-white">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold flex items-center gap-2">
+                  <MapIcon className="w-6 h-6" />
+                  {t('minimap.title')}
+                </h2>
+                <button
+                  onClick={() => setPlanOpen(false)}
+                  className="bg-white/20 hover:bg-white/30 p-1.5 rounded-lg"
+                  aria-label={t('minimap.close')}
+                  title={t('minimap.closeWithKey', { key: planKey })}
+                >
+                  <Minimize2 className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-sm text-gray-300 mb-3">
+                {t('minimap.visited', { visited: visitedCount, total: markers.length })}
+              </p>
+              <ul className="space-y-1 overflow-y-auto">
+                {markers.map(marker => (
+                  <li key={marker.id}>
+                    <button
+                      onClick={() => handleMarkerClick(marker)}
+                      className="w-full text-left px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors duration-200 flex items-center gap-2"
+                    >
+                      {marker.kind === 'screen' ? (
+                        <Video className="w-4 h-4 shrink-0 text-gray-300" />
+                      ) : (
+                        <span className="w-4 h-4 shrink-0 rounded-full bg-yellow-400" />
+                      )}
+                      <span className="flex-1 truncate">{marker.title}</span>
+                      {visitedIds.has(marker.id) && <Check className="w-4 h-4 text-green-400" />}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => setPlanOpen(false)}
+                className="mt-auto bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 text-sm"
+              >
+                <X className="w-4 h-4" />
+                {t('minimap.back')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
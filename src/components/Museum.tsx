@@ -1,5 +1,5 @@
-import { useRef, useState, useEffect } from 'react';
-import { useThree } from '@react-three/fiber';
+import { useRef, useState, useEffect, useMemo, type MutableRefObject } from 'react';
+import { useThree, useFrame, type ThreeEvent } from '@react-three/fiber';
 import { PointerLockControls, OrbitControls, Grid } from '@react-three/drei';
 import * as THREE from 'three';
 import { useControls } from 'leva';
@@ -7,58 +7,120 @@ import { InteractiveObject } from './InteractiveObject';
 import { TexturedWall } from './TexturedWall';
 import { InteractiveObject3D } from './InteractiveObject3D';
 import { Controls } from './Controls';
+import { TouchLook } from './TouchLook';
+import { ExhibitModel } from './ExhibitModel';
+import { VideoScreen } from './VideoScreen';
+import { WallLabel } from './WallLabel';
+import { RoomAmbience } from './RoomAmbience';
+import { TrackSpotlight } from './TrackSpotlight';
+import { BakedFloorShadows } from './BakedFloorShadows';
+import { Stairs } from './Stairs';
+import { Ramp } from './Ramp';
+import { findRoomAt, getLabelPlacements, getNearbyRoomIds, type Exhibition } from '../exhibition';
+import { GRID_CELL_SIZE, type EditorSettings, type LayoutChange } from '../editor';
+import { collisionRegistry, WALKABLE_KINDS, type ColliderEntry } from '../collision';
+import { getAudioListener, useAudioSettings } from '../audio';
+import { LIGHTING_PRESETS, LIGHTING_PRESET_LABELS, detectLightingQuality, getSpotlights } from '../lighting';
+import type { NavigationEndReason, NavigationTarget, VisitorPose } from '../navigation';
+import type { MoveInput } from '../input';
+import { DEFAULT_TUNING, LIGHTING_QUALITY_SETTINGS } from '../debug';
+
+const SPAWN_POSITION = new THREE.Vector3(0, 1.7, 8);
+
+// Floor clicks further away than this are ignored rather than teleported to
+const MAX_TELEPORT_DISTANCE = 20;
+const SCREEN_CENTER = new THREE.Vector2(0, 0);
 
 interface MuseumProps {
+  exhibition: Exhibition;
+  selectionMode: boolean;
+  /** Applies the developer views (orbit, wireframe and grid) set in the control panel. */
+  debugMode: boolean;
+  editorSettings: EditorSettings;
+  onLayoutChange: (id: string, change: LayoutChange) => void;
+  visitorPose: MutableRefObject<VisitorPose>;
+  navigationTarget: NavigationTarget | null;
+  onNavigationEnd: (reason: NavigationEndReason) => void;
+  onManualMove: () => void;
+  /** Called with the clicked point on a floor, platform, step or ramp. */
+  onFloorClick: (x: number, y: number, z: number) => void;
+  /** Phones and tablets look around by dragging and walk with the on-screen joystick. */
+  touchMode: boolean;
+  gamepadConnected: boolean;
+  moveInput: MutableRefObject<MoveInput>;
   isInteracting: boolean;
   onInteractionChange: (isInteracting: boolean) => void;
 }
 
-export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
+export function Museum({
+  exhibition,
+  selectionMode,
+  debugMode,
+  editorSettings,
+  onLayoutChange,
+  visitorPose,
+  navigationTarget,
+  onNavigationEnd,
+  onManualMove,
+  onFloorClick,
+  touchMode,
+  gamepadConnected,
+  moveInput,
+  isInteracting,
+  onInteractionChange
+}: MuseumProps) {
   const { camera, scene, gl } = useThree();
   const lastPosition = useRef(new THREE.Vector3());
   const lastRotation = useRef(new THREE.Euler());
   const orbitRef = useRef<any>();
-  const [selectedObjectId, setSelectedObjectId] = useState<number | null>(null);
+  const floorMeshes = useRef(new Map<string, THREE.Mesh>());
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const [currentRoomId, setCurrentRoomId] = useState(
+    () => findRoomAt(exhibition, SPAWN_POSITION.x, SPAWN_POSITION.z)?.id ?? exhibition.rooms[0].id
+  );
+  const audioSettings = useAudioSettings();
   const [pointerLockAvailable, setPointerLockAvailable] = useState(true);
   const [pointerLockActive, setPointerLockActive] = useState(false);
   const [pointerLockError, setPointerLockError] = useState<string | null>(null);
   
-  const {
-    orbitControls,
-    wireframe,
-    selectionMode,
-    lightX,
-    lightY,
-    lightZ,
-    lightIntensity,
-    orbitMinDistance,
-    orbitMaxDistance,
-    orbitDamping,
-    collisionElasticity,
-    showGrid
-  } = useControls({
+  const debugView = useControls({
     orbitControls: false,
     wireframe: false,
-    selectionMode: false,
     showGrid: false,
-    lightX: { value: 10, min: -20, max: 20, step: 0.1 },
-    lightY: { value: 10, min: -20, max: 20, step: 0.1 },
-    lightZ: { value: 5, min: -20, max: 20, step: 0.1 },
-    lightIntensity: { value: 1.5, min: 0, max: 5, step: 0.1 },
     orbitMinDistance: { value: 5, min: 1, max: 20 },
     orbitMaxDistance: { value: 30, min: 10, max: 50 },
-    orbitDamping: { value: 0.8, min: 0, max: 1 },
-    collisionElasticity: { value: 0.5, min: 0, max: 1, step: 0.1 }
+    orbitDamping: { value: 0.8, min: 0, max: 1 }
+  });
+  const { orbitMinDistance, orbitMaxDistance, orbitDamping } = debugView;
+  // Developer views only apply while debug mode is on, so visitors never get stuck in one
+  const orbitControls = debugMode && debugView.orbitControls;
+  const wireframe = debugMode && debugView.wireframe;
+  const showGrid = debugMode && debugView.showGrid;
+
+  const { lightX, lightY, lightZ, lightingPreset, lightingQuality } = useControls('Lighting', {
+    lightX: { value: DEFAULT_TUNING.Lighting.lightX, min: -20, max: 20, step: 0.1 },
+    lightY: { value: DEFAULT_TUNING.Lighting.lightY, min: -20, max: 20, step: 0.1 },
+    lightZ: { value: DEFAULT_TUNING.Lighting.lightZ, min: -20, max: 20, step: 0.1 },
+    lightingPreset: {
+      value: exhibition.lightingPreset,
+      options: Object.fromEntries(Object.entries(LIGHTING_PRESET_LABELS).map(([name, label]) => [label, name]))
+    },
+    lightingQuality: { value: DEFAULT_TUNING.Lighting.lightingQuality, options: LIGHTING_QUALITY_SETTINGS }
   });
 
   useEffect(() => {
     if (lastPosition.current.lengthSq() === 0) {
-      camera.position.set(0, 1.7, 8);
+      camera.position.copy(SPAWN_POSITION);
       lastPosition.current.copy(camera.position);
       lastRotation.current.copy(camera.rotation);
     }
   }, [camera]);
 
+  // Every sound in the museum goes through the one listener, so this is the master volume
+  useEffect(() => {
+    getAudioListener(camera).setMasterVolume(audioSettings.muted ? 0 : audioSettings.volume);
+  }, [camera, audioSettings]);
+
   useEffect(() => {
     scene.traverse((object) => {
       if (object instanceof THREE.Mesh) {
@@ -131,7 +193,7 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
     canvas.style.outline = 'none';
 
     const requestPointerLock = () => {
-      if (orbitControls || !pointerLockAvailable || pointerLockActive || isInteracting) {
+      if (orbitControls || touchMode || !pointerLockAvailable || pointerLockActive || isInteracting) {
         return;
       }
 
@@ -170,25 +232,95 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
       document.removeEventListener('mozpointerlockerror', handlePointerLockError);
       document.removeEventListener('webkitpointerlockerror', handlePointerLockError);
     };
-  }, [gl, orbitControls, pointerLockAvailable, pointerLockActive, isInteracting]);
+  }, [gl, orbitControls, touchMode, pointerLockAvailable, pointerLockActive, isInteracting]);
 
-  const handleObjectSelect = (id: number) => {
+  // While walking around, clicking the floor under the aim pointer teleports there.
+  // A locked pointer is raycast from the centre of the screen rather than its stale
+  // position, a tap from where it landed; walls and stands in the way block it, and
+  // platforms, stairs and ramps count as floor
+  useEffect(() => {
+    if (selectionMode || orbitControls) return;
+
+    const canvas = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    raycaster.far = MAX_TELEPORT_DISTANCE;
+
+    const handleClick = (e: MouseEvent) => {
+      const isLocked = document.pointerLockElement === canvas;
+      if ((!isLocked && !touchMode) || isInteracting) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const pointer = isLocked
+        ? SCREEN_CENTER
+        : new THREE.Vector2(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+          );
+      const floors = Array.from(floorMeshes.current.values());
+      raycaster.setFromCamera(pointer, camera);
+      const [hit] = raycaster.intersectObjects([...floors, ...collisionRegistry.getObjects()], false);
+      const collider: ColliderEntry | undefined = hit?.object.userData.collider;
+      if (hit && (floors.includes(hit.object as THREE.Mesh) || (collider && WALKABLE_KINDS.includes(collider.kind)))) {
+        onFloorClick(hit.point.x, hit.point.y, hit.point.z);
+      }
+    };
+
+    canvas.addEventListener('click', handleClick);
+    return () => canvas.removeEventListener('click', handleClick);
+  }, [gl, camera, selectionMode, orbitControls, touchMode, isInteracting, onFloorClick]);
+
+  // Publish the visitor's pose for the minimap. Only the visitor's room and the rooms
+  // through its doorways are mounted, so models and videos further away are neither
+  // loaded nor rendered
+  useFrame(() => {
+    const direction = camera.getWorldDirection(new THREE.Vector3());
+    visitorPose.current = {
+      x: camera.position.x,
+      z: camera.position.z,
+      heading: Math.atan2(direction.z, direction.x)
+    };
+
+    const room = findRoomAt(exhibition, camera.position.x, camera.position.z);
+    if (room && room.id !== currentRoomId) {
+      setCurrentRoomId(room.id);
+    }
+  });
+
+  const mountedRooms = useMemo(() => {
+    const currentRoom = exhibition.rooms.find(room => room.id === currentRoomId) ?? exhibition.rooms[0];
+    const nearby = getNearbyRoomIds(exhibition, currentRoom.id);
+    return exhibition.rooms.filter(room => nearby.has(room.id));
+  }, [exhibition, currentRoomId]);
+
+  const preset = LIGHTING_PRESETS[lightingPreset as keyof typeof LIGHTING_PRESETS];
+  const [detectedQuality] = useState(detectLightingQuality);
+  const realtimeShadows = (lightingQuality === 'auto' ? detectedQuality : lightingQuality) === 'high';
+  const spotlights = useMemo(
+    () => new Map(exhibition.rooms.map(room => [room.id, getSpotlights(room)])),
+    [exhibition]
+  );
+
+  // Worked out once per layout, so the label textures are not redrawn on every render
+  const labelPlacements = useMemo(
+    () => new Map(exhibition.rooms.map(room => [room.id, getLabelPlacements(room)])),
+    [exhibition]
+  );
+
+  const handleObjectSelect = (id: string) => {
     if (!selectionMode) return;
     setSelectedObjectId(id === selectedObjectId ? null : id);
   };
 
-  const handleBackgroundClick = (e: THREE.Event) => {
-    if (e.stopPropagation) {
-      e.stopPropagation();
-      setSelectedObjectId(null);
-    }
+  const handleBackgroundClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    setSelectedObjectId(null);
   };
 
-  const textureUrl = 'https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcRDuB09POk4Lg3o-lj43gT4a1lJzcJfZvy_Lg&s';
-
   return (
     <>
-      {(orbitControls || !pointerLockAvailable) ? (
+      {touchMode && !orbitControls ? (
+        <TouchLook enabled={!isInteracting} />
+      ) : (orbitControls || !pointerLockAvailable) ? (
         <OrbitControls
           ref={orbitRef}
           minDistance={orbitMinDistance}
@@ -204,35 +336,33 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
         <PointerLockControls makeDefault enabled={!isInteracting} />
       )}
 
-      <Controls isInteracting={isInteracting} />
+      <Controls
+        isInteracting={isInteracting}
+        navigationTarget={navigationTarget}
+        onNavigationEnd={onNavigationEnd}
+        onManualMove={onManualMove}
+        moveInput={moveInput}
+        followGround={!orbitControls}
+      />
       
       {/* Lights */}
-      <ambientLight intensity={0.8} />
+      <ambientLight color={preset.ambient.color} intensity={preset.ambient.intensity} />
       <directionalLight
         position={[lightX, lightY, lightZ]}
-        intensity={lightIntensity}
-        castShadow
+        color={preset.sun.color}
+        intensity={preset.sun.intensity}
+        castShadow={realtimeShadows}
         shadow-mapSize-width={2048}
         shadow-mapSize-height={2048}
       />
 
-      {/* Floor with click handler */}
-      <mesh 
-        rotation={[-Math.PI / 2, 0, 0]} 
-        receiveShadow
-        onClick={handleBackgroundClick}
-      >
-        <planeGeometry args={[30, 30]} />
-        <meshStandardMaterial color="#e879f9" />
-      </mesh>
-
       {/* Grids */}
-      {showGrid && (
+      {(showGrid || (selectionMode && editorSettings.snap)) && (
         <>
           <Grid
             position={[0, 0.02, 0]}
             args={[30, 30]}
-            cellSize={1}
+            cellSize={GRID_CELL_SIZE}
             cellThickness={0.5}
             cellColor="#ffffff"
             sectionSize={5}
@@ -247,7 +377,7 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
           <Grid
             position={[0, 0.02, 15]}
             args={[30, 30]}
-            cellSize={1}
+            cellSize={GRID_CELL_SIZE}
             cellThickness={0.5}
             cellColor="#000000"
             sectionSize={5}
@@ -261,7 +391,7 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
           <Grid
             position={[0, 0.02, -15]}
             args={[30, 30]}
-            cellSize={1}
+            cellSize={GRID_CELL_SIZE}
             cellThickness={0.5}
             cellColor="#000000"
             sectionSize={5}
@@ -275,7 +405,7 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
           <Grid
             position={[15, 0.02, 0]}
             args={[30, 30]}
-            cellSize={1}
+            cellSize={GRID_CELL_SIZE}
             cellThickness={0.5}
             cellColor="#000000"
             sectionSize={5}
@@ -289,7 +419,7 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
           <Grid
             position={[-15, 0.02, 0]}
             args={[30, 30]}
-            cellSize={1}
+            cellSize={GRID_CELL_SIZE}
             cellThickness={0.5}
             cellColor="#000000"
             sectionSize={5}
@@ -303,156 +433,183 @@ export function Museum({ isInteracting, onInteractionChange }: MuseumProps) {
         </>
       )}
 
-      {/* Interactive test object */}
-      <InteractiveObject3D
-        position={[-3, 2, 5]}
-        title="Test Object"
-        description="A rotating cube with an applied texture, demonstrating material and lighting effects in Three.js. This object showcases dynamic lighting, texture mapping, and real-time rotation animation."
-        onInteractionChange={onInteractionChange}
-      >
-        <mesh castShadow>
-          <boxGeometry args={[1.5, 1.5, 1.5]} />
-          <meshStandardMaterial
-            map={new THREE.TextureLoader().load(textureUrl)}
-            transparent={true}
-            side={THREE.DoubleSide}
-            roughness={0.5}
-            metalness={0.5}
-          />
-        </mesh>
-      </InteractiveObject3D>
-
-      {/* Back wall with texture */}
-      <TexturedWall
-        position={[0, 2.5, -10]}
-        size={[10, 5, 0.2]}
-        color="#fde047"
-        isSelected={selectedObjectId === 6}
-        onSelect={() => handleObjectSelect(6)}
-        name="Back Wall"
-        textureUrl={textureUrl}
-      />
-
-      {/* Left wall sections */}
-      <InteractiveObject
-        position={[-10, 2.5, -5]}
-        size={[0.2, 5, 10]}
-        color="#fde047"
-        isSelected={selectedObjectId === 7}
-        onSelect={() => handleObjectSelect(7)}
-        name="Left Wall Front"
-      />
-
-      <InteractiveObject
-        position={[-10, 2.5, 5]}
-        size={[0.2, 5, 10]}
-        color="#fde047"
-        isSelected={selectedObjectId === 8}
-        onSelect={() => handleObjectSelect(8)}
-        name="Left Wall Back"
-      />
-
-      {/* Right wall sections */}
-      <InteractiveObject
-        position={[10, 2.5, -5]}
-        size={[0.2, 5, 10]}
-        color="#fde047"
-        isSelected={selectedObjectId === 9}
-        onSelect={() => handleObjectSelect(9)}
-        name="Right Wall Front"
-      />
-
-      <InteractiveObject
-        position={[10, 2.5, 5]}
-        size={[0.2, 5, 10]}
-        color="#fde047"
-        isSelected={selectedObjectId === 10}
-        onSelect={() => handleObjectSelect(10)}
-        name="Right Wall Back"
-      />
-
-      {/* Interior walls */}
-      {/* Center wall with opening */}
-      <group position={[0, 2.5, 0]}>
-        <InteractiveObject
-          position={[-4, 0, 0]}
-          size={[4, 5, 0.2]}
-          color="#fde047"
-          isSelected={selectedObjectId === 11}
-          onSelect={() => handleObjectSelect(11)}
-          name="Center Wall Left"
-        />
-        <InteractiveObject
-          position={[4, 0, 0]}
-          size={[4, 5, 0.2]}
-          color="#fde047"
-          isSelected={selectedObjectId === 12}
-          onSelect={() => handleObjectSelect(12)}
-          name="Center Wall Right"
-        />
-      </group>
-
-      {/* Left interior wall */}
-      <InteractiveObject
-        position={[-5, 2.5, -5]}
-        size={[0.2, 5, 5]}
-        color="#fde047"
-        isSelected={selectedObjectId === 13}
-        onSelect={() => handleObjectSelect(13)}
-        name="Interior Wall"
-      />
-
-      {/* Display stands */}
-      {/* Front room stands */}
-      <InteractiveObject
-        position={[-3, 0.5, 5]}
-        size={[2, 1, 2]}
-        color="#3b82f6"
-        isSelected={selectedObjectId === 1}
-        onSelect={() => handleObjectSelect(1)}
-        name="Front Left Stand"
-      />
-
-      <InteractiveObject
-        position={[3, 0.5, 5]}
-        size={[2, 1, 2]}
-        color="#3b82f6"
-        isSelected={selectedObjectId === 2}
-        onSelect={() => handleObjectSelect(2)}
-        name="Front Right Stand"
-      />
-
-      {/* Back room stands */}
-      <InteractiveObject
-        position={[-3, 0.5, -5]}
-        size={[2, 1, 2]}
-        color="#3b82f6"
-        isSelected={selectedObjectId === 3}
-        onSelect={() => handleObjectSelect(3)}
-        name="Back Left Stand"
-      />
-
-      <InteractiveObject
-        position={[3, 0.5, -5]}
-        size={[2, 1, 2]}
-        color="#3b82f6"
-        isSelected={selectedObjectId === 4}
-        onSelect={() => handleObjectSelect(4)}
-        name="Back Right Stand"
-      />
+      {mountedRooms.map(room => (
+        <group key={room.id}>
+          {/* Floor with click handler */}
+          <mesh
+            ref={mesh => {
+              if (mesh) {
+                floorMeshes.current.set(room.id, mesh);
+              } else {
+                floorMeshes.current.delete(room.id);
+              }
+            }}
+            position={[room.floor.center[0], 0, room.floor.center[1]]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            receiveShadow
+            onClick={handleBackgroundClick}
+          >
+            <planeGeometry args={room.floor.size} />
+            <meshStandardMaterial color={room.floor.color} />
+          </mesh>
 
-      {/* Side room stand */}
-      <InteractiveObject
-        position={[7, 0.5, -5]}
-        size={[2, 1, 4]}
-        color="#3b82f6"
-        isSelected={selectedObjectId === 5}
-        onSelect={() => handleObjectSelect(5)}
-        name="Side Stand"
-      />
+          {room.ambience && (
+            <RoomAmbience
+              url={room.ambience.url}
+              volume={room.ambience.volume}
+              isActive={room.id === currentRoomId}
+            />
+          )}
+
+          {room.lights.map((light, index) => (
+            <pointLight
+              key={index}
+              position={light.position}
+              color={light.color}
+              intensity={light.intensity * preset.roomLights}
+              distance={light.distance}
+            />
+          ))}
+
+          {spotlights.get(room.id)?.map(spotlight => (
+            <TrackSpotlight
+              key={`${spotlight.id}-spotlight`}
+              spotlight={spotlight}
+              preset={preset}
+              shadows={realtimeShadows}
+            />
+          ))}
+
+          {!realtimeShadows && <BakedFloorShadows floor={room.floor} />}
+
+          {room.exhibits.map(exhibit => (
+            <InteractiveObject3D
+              key={exhibit.id}
+              id={exhibit.id}
+              position={exhibit.position}
+              title={exhibit.title}
+              description={exhibit.description}
+              metadata={exhibit.metadata}
+              interactionDistance={exhibit.interactionDistance}
+              inspection={exhibit.inspection}
+              hotspots={exhibit.hotspots}
+              narrationUrl={exhibit.narrationUrl}
+              touchMode={touchMode}
+              gamepadConnected={gamepadConnected}
+              onInteractionChange={onInteractionChange}
+            >
+              <ExhibitModel model={exhibit.model} />
+            </InteractiveObject3D>
+          ))}
+
+          {labelPlacements.get(room.id)?.map(({ exhibit, position, rotationY, size }) => (
+            <WallLabel
+              key={`${exhibit.id}-label`}
+              position={position}
+              rotationY={rotationY}
+              size={size}
+              title={exhibit.title}
+              metadata={exhibit.metadata}
+            />
+          ))}
+
+          {room.screens.map(screen => (
+            <VideoScreen
+              key={screen.id}
+              id={screen.id}
+              position={screen.position}
+              size={screen.size}
+              rotationY={screen.rotationY}
+              title={screen.title}
+              description={screen.description}
+              videoUrl={screen.videoUrl}
+              captionsUrl={screen.captionsUrl}
+              playRange={screen.playRange}
+              interactionDistance={screen.interactionDistance}
+              gamepadConnected={gamepadConnected}
+              touchMode={touchMode}
+              onInteractionChange={onInteractionChange}
+            />
+          ))}
+
+          {room.walls.map(wall => wall.textureUrl ? (
+            <TexturedWall
+              key={wall.id}
+              id={wall.id}
+              position={wall.position}
+              size={wall.size}
+              rotationY={wall.rotationY}
+              color={wall.color}
+              isSelected={selectedObjectId === wall.id}
+              onSelect={() => handleObjectSelect(wall.id)}
+              name={wall.name}
+              textureUrl={wall.textureUrl}
+              editorSettings={editorSettings}
+              onTransformEnd={change => onLayoutChange(wall.id, change)}
+            />
+          ) : (
+            <InteractiveObject
+              key={wall.id}
+              id={wall.id}
+              colliderKind="wall"
+              position={wall.position}
+              size={wall.size}
+              rotationY={wall.rotationY}
+              color={wall.color}
+              isSelected={selectedObjectId === wall.id}
+              onSelect={() => handleObjectSelect(wall.id)}
+              name={wall.name}
+              editorSettings={editorSettings}
+              onTransformEnd={change => onLayoutChange(wall.id, change)}
+            />
+          ))}
+
+          {room.stands.map(stand => (
+            <InteractiveObject
+              key={stand.id}
+              id={stand.id}
+              colliderKind="stand"
+              position={stand.position}
+              size={stand.size}
+              rotationY={stand.rotationY}
+              color={stand.color}
+              isSelected={selectedObjectId === stand.id}
+              onSelect={() => handleObjectSelect(stand.id)}
+              name={stand.name}
+              editorSettings={editorSettings}
+              onTransformEnd={change => onLayoutChange(stand.id, change)}
+            />
+          ))}
+
+          {room.platforms.map(platform => (
+            <InteractiveObject
+              key={platform.id}
+              id={platform.id}
+              colliderKind="platform"
+              position={platform.position}
+              size={platform.size}
+              rotationY={platform.rotationY}
+              color={platform.color}
+              isSelected={selectedObjectId === platform.id}
+              onSelect={() => handleObjectSelect(platform.id)}
+              name={platform.name}
+              editorSettings={editorSettings}
+              onTransformEnd={change => onLayoutChange(platform.id, change)}
+            />
+          ))}
+
+          {room.stairs.map(stairs => (
+            <Stairs key={stairs.id} stairs={stairs} />
+          ))}
+
+          {room.ramps.map(ramp => (
+            <Ramp key={ramp.id} ramp={ramp} />
+          ))}
+        </group>
+      ))}
 
       {/* Error message overlay */}
-      {pointerLockError && (
+      {pointerLockError && !touchMode && (
         <group position={[0, 2, -5]}>
           <mesh>
             <planeGeometry args={[4, 1]} />
@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useCollider } from '../collision';
+import type { RampDefinition, Vec3 } from '../exhibition';
+
+interface RampProps {
+  ramp: RampDefinition;
+}
+
+interface BalustradeProps {
+  id: string;
+  position: Vec3;
+  size: Vec3;
+}
+
+// Height of the balustrades above the top of the ramp
+const BALUSTRADE_HEIGHT = 1;
+const BALUSTRADE_THICKNESS = 0.05;
+
+function Balustrade({ id, position, size }: BalustradeProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useCollider(meshRef, { id, kind: 'wall' });
+
+  return (
+    <mesh ref={meshRef} position={position}>
+      <boxGeometry args={size} />
+      <meshStandardMaterial color="#bae6fd" transparent opacity={0.3} />
+    </mesh>
+  );
+}
+
+export function Ramp({ ramp }: RampProps) {
+  const { id, position, rotationY, width, length, rise, color } = ramp;
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useCollider(meshRef, { id, kind: 'ramp' });
+
+  // A wedge: its side profile is extruded across the width, then turned to climb towards -z
+  const geometry = useMemo(() => {
+    const profile = new THREE.Shape();
+    profile.moveTo(0, 0);
+    profile.lineTo(length, 0);
+    profile.lineTo(length, rise);
+    profile.closePath();
+    const wedge = new THREE.ExtrudeGeometry(profile, { depth: width, bevelEnabled: false });
+    wedge.rotateY(Math.PI / 2);
+    wedge.translate(-width / 2, 0, 0);
+    return wedge;
+  }, [width, length, rise]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const balustradeHeight = rise + BALUSTRADE_HEIGHT;
+
+  return (
+    <group position={position} rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}>
+      <mesh ref={meshRef} geometry={geometry} castShadow receiveShadow>
+        <meshStandardMaterial color={color} />
+      </mesh>
+      {[-1, 1].map(side => (
+        <Balustrade
+          key={side}
+          id={`${id}-balustrade-${side < 0 ? 'left' : 'right'}`}
+          position={[side * (width + BALUSTRADE_THICKNESS) / 2, balustradeHeight / 2, -length / 2]}
+          size={[BALUSTRADE_THICKNESS, balustradeHeight, length]}
+        />
+      ))}
+    </group>
+  );
+}
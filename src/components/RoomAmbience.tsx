@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { audioMixer, getAudioListener } from '../audio';
+import { useAsset } from '../assets';
+
+interface RoomAmbienceProps {
+  url: string;
+  /** Level of the loop, 0 to 1, before the master volume. */
+  volume: number;
+  /** Heard only while the visitor is in the room; neighbouring rooms stay loaded but silent. */
+  isActive: boolean;
+}
+
+// How quickly the loop fades in and out, per second
+const FADE_SPEED = 1.5;
+
+/** A room's background loop, crossfading with its neighbours as the visitor walks through a doorway. */
+export function RoomAmbience({ url, volume, isActive }: RoomAmbienceProps) {
+  const { camera } = useThree();
+  const soundRef = useRef<THREE.Audio | null>(null);
+  const level = useRef(0);
+  const buffer = useAsset('audio', url);
+
+  useEffect(() => {
+    if (!buffer) return;
+
+    const sound = new THREE.Audio(getAudioListener(camera));
+    sound.setLoop(true);
+    sound.setVolume(0);
+    sound.setBuffer(buffer);
+    level.current = 0;
+    soundRef.current = sound;
+
+    return () => {
+      if (sound.isPlaying) sound.stop();
+      sound.disconnect();
+      soundRef.current = null;
+    };
+  }, [camera, buffer]);
+
+  useFrame((_, delta) => {
+    const sound = soundRef.current;
+    // Nothing starts before the visitor has clicked their way into the museum
+    if (!sound || !audioMixer.isUnlocked()) return;
+
+    const target = isActive ? volume * audioMixer.getAmbienceGain() : 0;
+    level.current = THREE.MathUtils.lerp(level.current, target, Math.min(1, delta * FADE_SPEED));
+    sound.setVolume(level.current);
+
+    if (!sound.isPlaying && level.current > 0.001) {
+      sound.play();
+    } else if (sound.isPlaying && !isActive && level.current < 0.001) {
+      sound.pause();
+    }
+  });
+
+  return null;
+}
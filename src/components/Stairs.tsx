@@ -0,0 +1,52 @@
+import { useRef } from 'react';
+import * as THREE from 'three';
+import { useCollider } from '../collision';
+import type { StairsDefinition, Vec3 } from '../exhibition';
+
+interface StairsProps {
+  stairs: StairsDefinition;
+}
+
+interface StepProps {
+  id: string;
+  position: Vec3;
+  size: Vec3;
+  color: string;
+}
+
+function Step({ id, position, size, color }: StepProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useCollider(meshRef, { id, kind: 'stairs' });
+
+  return (
+    <mesh ref={meshRef} position={position} castShadow receiveShadow>
+      <boxGeometry args={size} />
+      <meshStandardMaterial color={color} />
+    </mesh>
+  );
+}
+
+export function Stairs({ stairs }: StairsProps) {
+  const { id, position, rotationY, width, length, rise, steps, color } = stairs;
+  const going = length / steps;
+
+  // Every step is a solid block down to the floor, so the flight walls itself in
+  // from the side and the visitor can only climb it from the front
+  return (
+    <group position={position} rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}>
+      {Array.from({ length: steps }, (_, index) => {
+        const height = (rise / steps) * (index + 1);
+        return (
+          <Step
+            key={index}
+            id={`${id}-step-${index}`}
+            position={[0, height / 2, -going * (index + 0.5)]}
+            size={[width, height, going]}
+            color={color}
+          />
+        );
+      })}
+    </group>
+  );
+}
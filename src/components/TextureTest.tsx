@@ -11,7 +11,7 @@ export function TextureTest({ position }: TextureTestProps) {
   const [texture] = useState(() => {
     const loader = new THREE.TextureLoader();
     const texture = loader.load(
-      'https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcRDuB09POk4Lg3o-lj43gT4a1lJzcJfZvy_Lg&s',
+      '/textures/test-object.png',
       (loadedTexture) => {
         loadedTexture.needsUpdate = true;
         loadedTexture.encoding = THREE.sRGBEncoding;
@@ -1,164 +1,184 @@
 import { useRef, useState, useEffect } from 'react';
-import { useThree } from '@react-three/fiber';
-import { TransformControls, Html, useTexture } from '@react-three/drei';
+import type { ThreeEvent } from '@react-three/fiber';
+import { TransformControls, Html } from '@react-three/drei';
 import * as THREE from 'three';
+import { collisionRegistry, useCollider } from '../collision';
+import { assetManager, getFallbackTexture } from '../assets';
+import { getTransformControlsProps, readLayoutChange, type EditorSettings, type LayoutChange } from '../editor';
 
 interface TexturedWallProps {
+  id: string;
   position: [number, number, number];
   size: [number, number, number];
+  rotationY?: number;
   color: string;
   isSelected: boolean;
   onSelect: () => void;
   name: string;
   textureUrl?: string;
+  editorSettings: EditorSettings;
+  onTransformEnd?: (change: LayoutChange) => void;
 }
 
-export function TexturedWall({ position, size, color, isSelected, onSelect, name, textureUrl }: TexturedWallProps) {
-  const meshRef = useRef<THREE.Mesh>(null);
+export function TexturedWall({
+  id,
+  position,
+  size,
+  rotationY = 0,
+  color,
+  isSelected,
+  onSelect,
+  name,
+  textureUrl,
+  editorSettings,
+  onTransformEnd
+}: TexturedWallProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const wallRef = useRef<THREE.Mesh>(null);
   const [currentPosition, setCurrentPosition] = useState(position);
-  const { scene } = useThree();
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
   const [textureError, setTextureError] = useState<boolean>(false);
 
   useEffect(() => {
-    if (textureUrl) {
-      // Reset states when URL changes
-      setTexture(null);
-      setTextureError(false);
-
-      const loader = new THREE.TextureLoader();
-      loader.crossOrigin = 'anonymous';
-      
-      // Fallback texture URL - a neutral pattern from a reliable CDN
-      const fallbackUrl = 'https://images.unsplash.com/photo-1558591710-4b4a1ae0f04d?q=80&w=1000&auto=format&fit=crop';
-      
-      const loadTexture = (url: string, isFallback = false) => {
-        loader.load(
-          url, 
-          (loadedTexture) => {
-            loadedTexture.needsUpdate = true;
-            loadedTexture.encoding = THREE.sRGBEncoding;
-            loadedTexture.flipY = true;
-            
-            // Calculate aspect ratios
-            const wallWidth = size[0];
-            const wallHeight = size[1];
-            const imageAspect = loadedTexture.image.width / loadedTexture.image.height;
-            const wallAspect = wallWidth / wallHeight;
-            
-            // Adjust repeat to maintain aspect ratio
-            if (imageAspect > wallAspect) {
-              const scale = wallAspect / imageAspect;
-              loadedTexture.repeat.set(1, scale);
-              loadedTexture.offset.set(0, (1 - scale) / 2);
-            } else {
-              const scale = imageAspect / wallAspect;
-              loadedTexture.repeat.set(scale, 1);
-              loadedTexture.offset.set((1 - scale) / 2, 0);
-            }
-            
-            loadedTexture.wrapS = THREE.ClampToEdgeWrapping;
-            loadedTexture.wrapT = THREE.ClampToEdgeWrapping;
-            loadedTexture.minFilter = THREE.LinearFilter;
-            loadedTexture.magFilter = THREE.LinearFilter;
-            loadedTexture.generateMipmaps = true;
-            
-            setTexture(loadedTexture);
-            setTextureError(false);
-          },
-          undefined,
-          () => {
-            if (!isFallback) {
-              console.warn(`Failed to load texture: ${url}, trying fallback...`);
-              loadTexture(fallbackUrl, true);
-            } else {
-              console.error('Failed to load both primary and fallback textures');
-              setTextureError(true);
-            }
-          }
-        );
-      };
-
-      loadTexture(textureUrl);
-    }
+    if (!textureUrl) return;
+
+    // Reset states when URL changes
+    setTexture(null);
+    setTextureError(false);
+
+    let cancelled = false;
+    let fitted: THREE.Texture | null = null;
+
+    // The loaded texture is shared with every wall using the image, so each wall fits its own copy
+    const fitTexture = (loadedTexture: THREE.Texture) => {
+      const wallTexture = loadedTexture.clone();
+      wallTexture.needsUpdate = true;
+      wallTexture.encoding = THREE.sRGBEncoding;
+      wallTexture.flipY = true;
+
+      // Calculate aspect ratios
+      const wallWidth = size[0];
+      const wallHeight = size[1];
+      const imageAspect = wallTexture.image.width / wallTexture.image.height;
+      const wallAspect = wallWidth / wallHeight;
+
+      // Adjust repeat to maintain aspect ratio
+      if (imageAspect > wallAspect) {
+        const scale = wallAspect / imageAspect;
+        wallTexture.repeat.set(1, scale);
+        wallTexture.offset.set(0, (1 - scale) / 2);
+      } else {
+        const scale = imageAspect / wallAspect;
+        wallTexture.repeat.set(scale, 1);
+        wallTexture.offset.set((1 - scale) / 2, 0);
+      }
+
+      wallTexture.wrapS = THREE.ClampToEdgeWrapping;
+      wallTexture.wrapT = THREE.ClampToEdgeWrapping;
+      wallTexture.minFilter = THREE.LinearFilter;
+      wallTexture.magFilter = THREE.LinearFilter;
+      wallTexture.generateMipmaps = true;
+      return wallTexture;
+    };
+
+    // A wall whose artwork fails shows the generated fallback, marked as an error in the editor
+    assetManager.load('texture', textureUrl).then(
+      loadedTexture => {
+        if (cancelled) return;
+        fitted = fitTexture(loadedTexture);
+        setTexture(fitted);
+        setTextureError(false);
+      },
+      () => {
+        if (cancelled) return;
+        fitted = fitTexture(getFallbackTexture());
+        setTexture(fitted);
+        setTextureError(true);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      fitted?.dispose();
+    };
   }, [textureUrl, size]);
   
-  const handleClick = (e: THREE.Event) => {
+  useCollider(wallRef, { id, kind: 'wall' });
+
+  // Undo, redo and imports move the wall through props
+  useEffect(() => {
+    setCurrentPosition(position);
+  }, [position]);
+
+  // The mesh already has its new placement, but cached colliders still have the old one
+  useEffect(() => {
+    if (wallRef.current) collisionRegistry.touch(wallRef.current);
+  }, [position, size, rotationY]);
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
     onSelect();
   };
 
-  useEffect(() => {
-    if (meshRef.current) {
-      setCurrentPosition([
-        meshRef.current.position.x,
-        meshRef.current.position.y,
-        meshRef.current.position.z
-      ]);
-
-      const collisionBox = scene.children.find(child => 
-        child instanceof THREE.Mesh && 
-        child.geometry instanceof THREE.BoxGeometry &&
-        child.material.visible === false &&
-        Math.abs(child.position.x - position[0]) < 0.1 &&
-        Math.abs(child.position.y - position[1]) < 0.1 &&
-        Math.abs(child.position.z - position[2]) < 0.1
-      );
-
-      if (collisionBox) {
-        collisionBox.position.copy(meshRef.current.position);
-      }
-    }
-  }, [meshRef.current?.position.x, meshRef.current?.position.y, meshRef.current?.position.z, scene, position]);
-
   return (
     <>
-      {/* Textured wall */}
-      <mesh
-        ref={meshRef}
-        position={[position[0], position[1], -9.88]}
-        castShadow
-        onClick={handleClick}
-      >
-        <planeGeometry args={[size[0], size[1]]} />
-        <meshStandardMaterial 
-          color={textureError ? color : '#ffffff'}
-          map={texture}
-          transparent={true}
-          side={THREE.DoubleSide}
-          roughness={0.8}
-          metalness={0.2}
-        />
-      </mesh>
-
-      {/* Solid wall behind the texture */}
-      <mesh
-        position={position}
-        castShadow
-      >
-        <boxGeometry args={size} />
-        <meshStandardMaterial 
-          color={color}
-          emissive={isSelected ? "#ffffff" : "#000000"}
-          emissiveIntensity={isSelected ? 0.2 : 0}
-          transparent={true}
-          opacity={texture ? 0.5 : 1}
-        />
-      </mesh>
-
-      {isSelected && meshRef.current && (
+      <group ref={groupRef} position={position} rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}>
+        {/* Textured wall */}
+        <mesh
+          position={[0, 0, size[2] / 2 + 0.02]}
+          castShadow
+          receiveShadow
+          onClick={handleClick}
+        >
+          <planeGeometry args={[size[0], size[1]]} />
+          <meshStandardMaterial 
+            color={textureError ? color : '#ffffff'}
+            map={texture}
+            transparent={true}
+            side={THREE.DoubleSide}
+            roughness={0.8}
+            metalness={0.2}
+          />
+        </mesh>
+
+        {/* Solid wall behind the texture, also the wall's collider */}
+        <mesh
+          ref={wallRef}
+          castShadow
+          receiveShadow
+        >
+          <boxGeometry args={size} />
+          <meshStandardMaterial 
+            color={color}
+            emissive={isSelected ? "#ffffff" : "#000000"}
+            emissiveIntensity={isSelected ? 0.2 : 0}
+            transparent={true}
+            opacity={texture ? 0.5 : 1}
+          />
+        </mesh>
+      </group>
+
+      {isSelected && groupRef.current && (
         <>
           <TransformControls
-            object={meshRef.current}
-            mode="translate"
+            object={groupRef.current}
+            {...getTransformControlsProps(editorSettings)}
+            onMouseUp={() => {
+              if (groupRef.current) {
+                onTransformEnd?.(readLayoutChange(groupRef.current, size));
+              }
+            }}
             onObjectChange={() => {
-              if (meshRef.current) {
+              if (groupRef.current) {
                 setCurrentPosition([
-                  meshRef.current.position.x,
-                  meshRef.current.position.y,
-                  meshRef.current.position.z
+                  groupRef.current.position.x,
+                  groupRef.current.position.y,
+                  groupRef.current.position.z
                 ]);
               }
+              if (wallRef.current) {
+                collisionRegistry.touch(wallRef.current);
+              }
             }}
           />
           <Html
@@ -181,7 +201,8 @@ export function TexturedWall({ position, size, color, isSelected, onSelect, name
               <strong>{name}</strong><br />
               x: {currentPosition[0].toFixed(2)}<br />
               y: {currentPosition[1].toFixed(2)}<br />
-              z: {currentPosition[2].toFixed(2)}
+              z: {currentPosition[2].toFixed(2)}<br />
+              rotation: {rotationY.toFixed(0)}°
               {textureError && <br />}<span style={{ color: 'red' }}>{textureError ? 'Texture failed to load' : ''}</span>
             </div>
           </Html>
@@ -0,0 +1,70 @@
+import { useRef, useState, type MutableRefObject, type PointerEvent } from 'react';
+import type { MoveInput } from '../input';
+import { useTranslation } from '../i18n';
+
+interface TouchControlsProps {
+  moveInput: MutableRefObject<MoveInput>;
+}
+
+// Distance in pixels the knob can travel from the centre of the joystick
+const JOYSTICK_RADIUS = 48;
+
+export function TouchControls({ moveInput }: TouchControlsProps) {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const activePointer = useRef<number | null>(null);
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const { t } = useTranslation();
+
+  const updateKnob = (e: PointerEvent<HTMLDivElement>) => {
+    const base = baseRef.current;
+    if (!base) return;
+
+    const rect = base.getBoundingClientRect();
+    let x = e.clientX - (rect.left + rect.width / 2);
+    let y = e.clientY - (rect.top + rect.height / 2);
+    const distance = Math.hypot(x, y);
+    if (distance > JOYSTICK_RADIUS) {
+      x *= JOYSTICK_RADIUS / distance;
+      y *= JOYSTICK_RADIUS / distance;
+    }
+
+    setKnob({ x, y });
+    moveInput.current = { x: x / JOYSTICK_RADIUS, y: -y / JOYSTICK_RADIUS };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (activePointer.current !== null) return;
+    activePointer.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    updateKnob(e);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== activePointer.current) return;
+    updateKnob(e);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== activePointer.current) return;
+    activePointer.current = null;
+    setKnob({ x: 0, y: 0 });
+    moveInput.current = { x: 0, y: 0 };
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      className="fixed bottom-8 left-8 w-32 h-32 rounded-full bg-black/20 border-2 border-white/40 z-30 select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-label={t('action.walk')}
+    >
+      <div
+        className="absolute top-1/2 left-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-white/70 shadow-lg pointer-events-none"
+        style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+interface TouchLookProps {
+  enabled: boolean;
+}
+
+// Radians turned per pixel dragged
+const LOOK_SENSITIVITY = 0.005;
+const MAX_PITCH = Math.PI / 2 - 0.05;
+
+/** Drag-to-look for touch screens, where pointer lock is unavailable. */
+export function TouchLook({ enabled }: TouchLookProps) {
+  const { camera, gl } = useThree();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const canvas = gl.domElement;
+    const euler = new THREE.Euler(0, 0, 0, 'YXZ');
+    let activePointer: number | null = null;
+    let last = { x: 0, y: 0 };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch' || activePointer !== null) return;
+      activePointer = e.pointerId;
+      last = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== activePointer) return;
+      euler.setFromQuaternion(camera.quaternion);
+      euler.y -= (e.clientX - last.x) * LOOK_SENSITIVITY;
+      euler.x = THREE.MathUtils.clamp(euler.x - (e.clientY - last.y) * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH);
+      camera.quaternion.setFromEuler(euler);
+      last = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId === activePointer) activePointer = null;
+    };
+
+    const previousTouchAction = canvas.style.touchAction;
+    canvas.style.touchAction = 'none';
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      canvas.style.touchAction = previousTouchAction;
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [camera, gl, enabled]);
+
+  return null;
+}
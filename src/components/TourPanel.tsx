@@ -0,0 +1,68 @@
+import { Footprints, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import type { TourState } from '../tour';
+import { useTranslation } from '../i18n';
+
+interface TourPanelProps {
+  state: TourState;
+  onPause: () => void;
+  onResume: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onEnd: () => void;
+}
+
+const buttonClass =
+  'bg-white/20 hover:bg-white/30 p-2 rounded-lg transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed';
+
+export function TourPanel({ state, onPause, onResume, onPrevious, onNext, onEnd }: TourPanelProps) {
+  const { tour, stopIndex, phase, isPaused } = state;
+  const stop = tour.stops[stopIndex];
+  const { t } = useTranslation();
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 w-full max-w-xl px-4 z-40 select-none animate-fade-in"
+      // Keep PointerLockControls from re-locking when a button is clicked
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="bg-black bg-opacity-75 p-4 rounded-lg text-white space-y-3">
+        <div className="flex items-center justify-between text-xs text-gray-300 uppercase tracking-wide">
+          <span>{tour.title}</span>
+          <span>{t('tour.stopOf', { current: stopIndex + 1, total: tour.stops.length })}</span>
+        </div>
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            {phase === 'travelling' && !isPaused && <Footprints className="w-4 h-4 text-gray-300" />}
+            {stop.title}
+          </h3>
+          <p className="text-sm text-gray-300">{stop.text}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onPrevious} disabled={stopIndex === 0} className={buttonClass} aria-label={t('tour.previous')}>
+            <SkipBack className="w-4 h-4" />
+          </button>
+          {isPaused ? (
+            <button onClick={onResume} className={buttonClass} aria-label={t('tour.resume')}>
+              <Play className="w-4 h-4" />
+            </button>
+          ) : (
+            <button onClick={onPause} className={buttonClass} aria-label={t('tour.pause')}>
+              <Pause className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onNext} className={buttonClass} aria-label={t('tour.next')}>
+            <SkipForward className="w-4 h-4" />
+          </button>
+          {isPaused && <span className="text-xs text-gray-300">{t('tour.paused')}</span>}
+          <button
+            onClick={onEnd}
+            className="ml-auto bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center gap-2 text-sm"
+          >
+            <X className="w-4 h-4" />
+            {t('tour.end')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import type { LightingPreset, SpotlightPlacement } from '../lighting';
+
+interface TrackSpotlightProps {
+  spotlight: SpotlightPlacement;
+  preset: LightingPreset;
+  /** Real-time shadows are left to the quality tier; the manifest can only turn them off. */
+  shadows: boolean;
+}
+
+export function TrackSpotlight({ spotlight, preset, shadows }: TrackSpotlightProps) {
+  const target = useMemo(() => new THREE.Object3D(), []);
+
+  return (
+    <>
+      <primitive object={target} position={spotlight.target} />
+      <spotLight
+        position={spotlight.position}
+        target={target}
+        color={preset.spotlight.color}
+        intensity={preset.spotlight.intensity * spotlight.intensity}
+        angle={spotlight.angle}
+        penumbra={preset.spotlight.penumbra}
+        castShadow={shadows && spotlight.castShadow}
+        shadow-mapSize={[spotlight.shadowMapSize, spotlight.shadowMapSize]}
+        shadow-bias={spotlight.shadowBias}
+      />
+    </>
+  );
+}
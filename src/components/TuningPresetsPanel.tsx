@@ -0,0 +1,136 @@
+import { useRef, useState, type ReactNode } from 'react';
+import { Download, RotateCcw, Save, SlidersHorizontal, Trash2, Upload } from 'lucide-react';
+import {
+  DEFAULT_TUNING,
+  applyTuning,
+  exportTuning,
+  importTuning,
+  readTuning,
+  tuningPresets,
+  useTuningPresets
+} from '../debug';
+
+function PanelButton({ title, onClick, children }: { title: string; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      title={title}
+      aria-label={title}
+      onClick={onClick}
+      className="p-1.5 rounded-lg bg-white/20 hover:bg-white/30 text-white transition-all duration-200"
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Saves and loads the movement and lighting values set in the control panel.
+ * Exporting writes a file to replace `src/data/tuning.json`, which makes the
+ * values the museum's defaults. Shown in debug mode only.
+ */
+export function TuningPresetsPanel() {
+  const presets = useTuningPresets();
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const trimmedName = name.trim();
+
+  const handleImport = (file: File) => {
+    importTuning(file)
+      .then(preset => {
+        applyTuning(preset);
+        setImportError(null);
+      })
+      .catch(error => {
+        setImportError(error instanceof SyntaxError ? `${file.name} is not valid JSON: ${error.message}` : error.message);
+      });
+  };
+
+  return (
+    <div
+      className="fixed top-4 left-4 z-40 w-64 bg-black bg-opacity-75 p-3 rounded-lg text-white text-sm select-none"
+      // Keep PointerLockControls from locking the pointer while the panel is used
+      onClick={e => e.stopPropagation()}
+    >
+      <h2 className="font-bold mb-2 flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4" />
+        Tuning presets
+      </h2>
+
+      <form
+        className="flex items-center gap-1 mb-2"
+        onSubmit={e => {
+          e.preventDefault();
+          tuningPresets.save(trimmedName, readTuning());
+          setName('');
+        }}
+      >
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          // Typing a name should not walk the visitor around
+          onKeyDown={e => e.stopPropagation()}
+          placeholder="Preset name"
+          aria-label="Preset name"
+          className="flex-1 min-w-0 px-2 py-1 rounded-lg bg-white/10 placeholder:text-gray-400 focus:outline-none focus:bg-white/20"
+        />
+        <button
+          type="submit"
+          disabled={!trimmedName}
+          title="Save the current values"
+          aria-label="Save the current values"
+          className="p-1.5 rounded-lg bg-white/20 hover:bg-white/30 transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </form>
+
+      {Object.keys(presets).length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {Object.entries(presets).map(([presetName, preset]) => (
+            <li key={presetName} className="flex items-center gap-1">
+              <button
+                onClick={() => applyTuning(preset)}
+                title={`Load ${presetName}`}
+                className="flex-1 min-w-0 truncate text-left px-2 py-1 rounded-lg hover:bg-white/20"
+              >
+                {presetName}
+              </button>
+              <PanelButton title={`Export ${presetName}`} onClick={() => exportTuning(preset, presetName)}>
+                <Download className="w-4 h-4" />
+              </PanelButton>
+              <PanelButton title={`Delete ${presetName}`} onClick={() => tuningPresets.remove(presetName)}>
+                <Trash2 className="w-4 h-4" />
+              </PanelButton>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-1 border-t border-white/20 pt-2">
+        <PanelButton title="Export the current values as tuning.json" onClick={() => exportTuning(readTuning())}>
+          <Download className="w-4 h-4" />
+        </PanelButton>
+        <PanelButton title="Import a preset file" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+        </PanelButton>
+        <PanelButton title="Back to the shipped defaults" onClick={() => applyTuning(DEFAULT_TUNING)}>
+          <RotateCcw className="w-4 h-4" />
+        </PanelButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {importError && <p className="mt-2 font-mono text-xs text-red-300">{importError}</p>}
+    </div>
+  );
+}
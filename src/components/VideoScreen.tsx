@@ -0,0 +1,387 @@
+import { useRef, useState, useEffect, useMemo } from 'react';
+import { useThree, useFrame, type ThreeEvent } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { Captions, CaptionsOff, Hand, Pause, Play, X } from 'lucide-react';
+import { getAudioListener } from '../audio';
+import { useAsset } from '../assets';
+import { aimTargets, getGamepad, inputBindings, isButtonPressed, useInputBindings } from '../input';
+import { useTranslation } from '../i18n';
+
+interface VideoScreenProps {
+  id: string;
+  position: [number, number, number];
+  size: [number, number];
+  rotationY?: number;
+  title: string;
+  description?: string;
+  videoUrl: string;
+  captionsUrl?: string;
+  playRange: number;
+  interactionDistance?: number;
+  /** Show gamepad button prompts instead of mouse hints. */
+  gamepadConnected?: boolean;
+  touchMode?: boolean;
+  onInteractionChange?: (isInteracting: boolean) => void;
+}
+
+// Full volume within this distance, fading linearly to silence at `playRange`
+const AUDIO_REF_DISTANCE = 1;
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.floor(seconds % 60);
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+export function VideoScreen({
+  id,
+  position,
+  size,
+  rotationY = 0,
+  title,
+  description,
+  videoUrl,
+  captionsUrl,
+  playRange,
+  interactionDistance = 3,
+  gamepadConnected = false,
+  touchMode = false,
+  onInteractionChange
+}: VideoScreenProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const { camera } = useThree();
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const [showHand, setShowHand] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [caption, setCaption] = useState('');
+  const [captionsEnabled, setCaptionsEnabled] = useState(true);
+  const isInRange = useRef(false);
+  const pausedByVisitor = useRef(false);
+  const handVisible = useRef(false);
+  const screenPosition = useRef(new THREE.Vector3());
+  const gamepadButtons = useRef({ a: false, b: false });
+  const bindings = useInputBindings();
+  const { t } = useTranslation();
+  // Played from the preloaded copy, so the screen never waits on the network
+  const source = useAsset('video', videoUrl);
+
+  // Create the video element together with its positional audio: a media element
+  // can only be connected to the audio graph once, so both share a lifetime
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group || !source) return;
+
+    const element = document.createElement('video');
+    element.src = source;
+    element.crossOrigin = 'anonymous';
+    element.loop = true;
+    element.playsInline = true;
+    element.preload = 'auto';
+
+    if (captionsUrl) {
+      const track = document.createElement('track');
+      track.kind = 'captions';
+      track.src = captionsUrl;
+      track.default = true;
+      element.appendChild(track);
+    }
+
+    const handleCueChange = (event: Event) => {
+      const cues = (event.target as TextTrack).activeCues;
+      setCaption(cues ? Array.from(cues, cue => (cue as VTTCue).text).join('\n') : '');
+    };
+    const handleTrackAdded = () => {
+      const track = element.textTracks[0];
+      if (!track) return;
+      // Hidden tracks still fire cue changes; we draw captions ourselves
+      track.mode = 'hidden';
+      track.addEventListener('cuechange', handleCueChange);
+    };
+    const handleTimeUpdate = () => setCurrentTime(element.currentTime);
+    const handleDurationChange = () => setDuration(element.duration);
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+    const handleError = () => console.error(`Failed to load video: ${videoUrl}`);
+
+    handleTrackAdded();
+    element.textTracks.addEventListener('addtrack', handleTrackAdded);
+    element.addEventListener('timeupdate', handleTimeUpdate);
+    element.addEventListener('durationchange', handleDurationChange);
+    element.addEventListener('play', handlePlay);
+    element.addEventListener('pause', handlePause);
+    element.addEventListener('error', handleError);
+
+    const sound = new THREE.PositionalAudio(getAudioListener(camera));
+    sound.setMediaElementSource(element);
+    sound.setDistanceModel('linear');
+    sound.setRefDistance(AUDIO_REF_DISTANCE);
+    sound.setMaxDistance(playRange);
+    group.add(sound);
+
+    setVideo(element);
+
+    return () => {
+      element.pause();
+      element.textTracks.removeEventListener('addtrack', handleTrackAdded);
+      Array.from(element.textTracks).forEach(track => track.removeEventListener('cuechange', handleCueChange));
+      element.removeEventListener('timeupdate', handleTimeUpdate);
+      element.removeEventListener('durationchange', handleDurationChange);
+      element.removeEventListener('play', handlePlay);
+      element.removeEventListener('pause', handlePause);
+      element.removeEventListener('error', handleError);
+      element.removeAttribute('src');
+      element.load();
+
+      group.remove(sound);
+      sound.disconnect();
+
+      isInRange.current = false;
+      pausedByVisitor.current = false;
+      setVideo(null);
+      setIsPlaying(false);
+    };
+  }, [camera, source, videoUrl, captionsUrl, playRange]);
+
+  const texture = useMemo(() => {
+    if (!video) return null;
+    const videoTexture = new THREE.VideoTexture(video);
+    videoTexture.colorSpace = THREE.SRGBColorSpace;
+    return videoTexture;
+  }, [video]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  const play = () => {
+    if (!video) return;
+    const { context } = getAudioListener(camera);
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    video.play().catch(error => console.warn('Video playback was blocked:', error));
+  };
+
+  // Play when the visitor walks up to the screen and pause when they leave
+  useFrame(() => {
+    if (!groupRef.current || !video) return;
+
+    groupRef.current.getWorldPosition(screenPosition.current);
+    const distance = camera.position.distanceTo(screenPosition.current);
+
+    const inRange = distance < playRange;
+    if (inRange !== isInRange.current) {
+      isInRange.current = inRange;
+      if (inRange && !pausedByVisitor.current) {
+        play();
+      } else if (!inRange) {
+        video.pause();
+        pausedByVisitor.current = false;
+      }
+    }
+
+    let aiming = false;
+    if (!isWatching && distance < interactionDistance) {
+      const direction = new THREE.Vector3();
+      camera.getWorldDirection(direction);
+      const screenDirection = screenPosition.current.clone().sub(camera.position).normalize();
+      aiming = direction.angleTo(screenDirection) < 0.5;
+    }
+    if (aiming) {
+      aimTargets.set(id, distance);
+    } else if (handVisible.current) {
+      aimTargets.remove(id);
+    }
+    if (aiming !== handVisible.current) {
+      handVisible.current = aiming;
+      setShowHand(aiming);
+    }
+
+    // Gamepad: A opens the controls of the screen being aimed at, B closes them
+    const gamepad = getGamepad();
+    const aPressed = isButtonPressed(gamepad, 'a');
+    const bPressed = isButtonPressed(gamepad, 'b');
+    if (aPressed && !gamepadButtons.current.a && handVisible.current && !isWatching && aimTargets.isNearest(id)) {
+      openOverlay();
+    } else if (bPressed && !gamepadButtons.current.b && isWatching) {
+      handleClose();
+    }
+    gamepadButtons.current = { a: aPressed, b: bPressed };
+  });
+
+  // PointerLockControls re-locks on any document click, so release the pointer
+  // after the click that opened the overlay has finished propagating
+  useEffect(() => {
+    if (!isWatching) return;
+
+    const timer = setTimeout(() => document.exitPointerLock?.(), 0);
+    document.body.style.cursor = 'auto';
+
+    return () => {
+      clearTimeout(timer);
+      document.body.style.cursor = 'none';
+    };
+  }, [isWatching]);
+
+  // Forget the screen as an aim target once it is gone
+  useEffect(() => () => aimTargets.remove(id), [id]);
+
+  const openOverlay = () => {
+    aimTargets.engage(id);
+    setIsWatching(true);
+    onInteractionChange?.(true);
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (!handVisible.current || isWatching) return;
+    e.stopPropagation();
+    openOverlay();
+  };
+
+  const handleClose = () => {
+    aimTargets.release(id);
+    setIsWatching(false);
+    onInteractionChange?.(false);
+  };
+
+  // Keyboard: the inspect key opens the controls of the screen being aimed at, the exit key closes them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // An exhibit or another screen already handled this key press
+      if (e.defaultPrevented) return;
+
+      if (!isWatching && handVisible.current && inputBindings.matches('inspect', e.code) && aimTargets.isNearest(id)) {
+        e.preventDefault();
+        openOverlay();
+      } else if (isWatching && inputBindings.matches('exit', e.code)) {
+        e.preventDefault();
+        handleClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const togglePlayback = () => {
+    if (!video) return;
+    if (video.paused) {
+      pausedByVisitor.current = false;
+      play();
+    } else {
+      pausedByVisitor.current = true;
+      video.pause();
+    }
+  };
+
+  const handleScrub = (time: number) => {
+    if (!video) return;
+    video.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  return (
+    <group
+      ref={groupRef}
+      position={position}
+      rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}
+    >
+      <mesh onClick={handleClick}>
+        <planeGeometry args={size} />
+        {texture ? (
+          <meshBasicMaterial map={texture} toneMapped={false} />
+        ) : (
+          <meshBasicMaterial color="#111111" />
+        )}
+      </mesh>
+
+      {showHand && !isWatching && (
+        <Html
+          center
+          position={[0, size[1] / 2 + 0.3, 0]}
+          style={{ pointerEvents: 'none' }}
+        >
+          <div className="bg-black bg-opacity-50 p-2 rounded-full transform -translate-y-full flex items-center gap-1">
+            <Hand className="w-6 h-6 text-white" />
+            {gamepadConnected ? (
+              <span className="w-6 h-6 rounded-full bg-green-600 text-white text-xs font-bold flex items-center justify-center">
+                A
+              </span>
+            ) : !touchMode && (
+              <kbd className="min-w-6 h-6 px-1 rounded bg-white/20 text-white text-xs font-bold flex items-center justify-center">
+                {inputBindings.getLabel(bindings.inspect)}
+              </kbd>
+            )}
+          </div>
+        </Html>
+      )}
+
+      {isWatching && (
+        <Html fullscreen style={{ pointerEvents: 'none' }}>
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-xl px-4 select-none">
+            {captionsEnabled && caption && (
+              <p className="mb-3 mx-auto w-fit max-w-full bg-black bg-opacity-80 px-3 py-1.5 rounded text-white text-center text-lg whitespace-pre-line">
+                {caption}
+              </p>
+            )}
+            <div
+              className="bg-black bg-opacity-75 p-4 rounded-lg text-white space-y-3 pointer-events-auto"
+              onClick={e => e.stopPropagation()}
+            >
+              <div>
+                <h3 className="text-lg font-bold">{title}</h3>
+                {description && <p className="text-sm text-gray-300">{description}</p>}
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={togglePlayback}
+                  className="bg-white/20 hover:bg-white/30 p-2 rounded-lg transition-all duration-200"
+                  aria-label={isPlaying ? t('video.pause') : t('video.play')}
+                >
+                  {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={duration || 0}
+                  step={0.1}
+                  value={currentTime}
+                  onChange={e => handleScrub(Number(e.target.value))}
+                  className="flex-1 accent-white"
+                  aria-label={t('video.seek')}
+                />
+                <span className="text-xs font-mono text-gray-300 tabular-nums">
+                  {formatTime(currentTime)} / {formatTime(duration)}
+                </span>
+                {captionsUrl && (
+                  <button
+                    onClick={() => setCaptionsEnabled(enabled => !enabled)}
+                    className="bg-white/20 hover:bg-white/30 p-2 rounded-lg transition-all duration-200"
+                    aria-label={captionsEnabled ? t('video.hideCaptions') : t('video.showCaptions')}
+                  >
+                    {captionsEnabled ? <Captions className="w-4 h-4" /> : <CaptionsOff className="w-4 h-4" />}
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={handleClose}
+                className="bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 w-full text-sm"
+              >
+                <X className="w-4 h-4" />
+                {t('video.close')}
+                {gamepadConnected && (
+                  <span className="w-5 h-5 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+                    B
+                  </span>
+                )}
+              </button>
+            </div>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { ExhibitMetadata } from '../exhibition';
+
+interface WallLabelProps {
+  position: [number, number, number];
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  /** Width and height in metres. */
+  size: [number, number];
+  title: string;
+  metadata: ExhibitMetadata;
+}
+
+// Texture pixels per metre of label, enough to read from a step away
+const PIXELS_PER_METRE = 800;
+const PADDING = 28;
+const BACKGROUND = '#f5f3ee';
+const INK = '#1c1917';
+const MUTED_INK = '#57534e';
+
+// Greedy word wrap; a single word wider than the line is left to overflow
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+function drawLabel(canvas: HTMLCanvasElement, title: string, metadata: ExhibitMetadata) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const maxWidth = canvas.width - PADDING * 2;
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.textBaseline = 'top';
+
+  let y = PADDING;
+  const write = (text: string, font: string, color: string, lineHeight: number) => {
+    context.font = font;
+    context.fillStyle = color;
+    wrapText(context, text, maxWidth).forEach(line => {
+      // Drop what does not fit rather than spilling off the plate
+      if (y + lineHeight > canvas.height - PADDING) return;
+      context.fillText(line, PADDING, y);
+      y += lineHeight;
+    });
+  };
+
+  if (metadata.artist) write(metadata.artist, 'bold 34px sans-serif', INK, 42);
+  write(title, `italic ${metadata.artist ? '' : 'bold '}32px sans-serif`, INK, 40);
+  const dateAndOrigin = [metadata.date, metadata.origin].filter(Boolean).join(', ');
+  if (dateAndOrigin) write(dateAndOrigin, '28px sans-serif', INK, 36);
+  y += 10;
+  if (metadata.medium) write(metadata.medium, '24px sans-serif', MUTED_INK, 30);
+  if (metadata.dimensions) write(metadata.dimensions, '24px sans-serif', MUTED_INK, 30);
+  if (metadata.creditLine) write(metadata.creditLine, '20px sans-serif', MUTED_INK, 26);
+}
+
+/** A printed label beside an exhibit, drawn to a texture so walls and stands hide it like any other surface. */
+export function WallLabel({ position, rotationY, size, title, metadata }: WallLabelProps) {
+  const texture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(size[0] * PIXELS_PER_METRE);
+    canvas.height = Math.round(size[1] * PIXELS_PER_METRE);
+    drawLabel(canvas, title, metadata);
+
+    const canvasTexture = new THREE.CanvasTexture(canvas);
+    canvasTexture.colorSpace = THREE.SRGBColorSpace;
+    canvasTexture.anisotropy = 4;
+    return canvasTexture;
+  }, [size, title, metadata]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <mesh position={position} rotation={[0, THREE.MathUtils.degToRad(rotationY), 0]}>
+      <planeGeometry args={size} />
+      <meshStandardMaterial map={texture} roughness={0.9} />
+    </mesh>
+  );
+}
@@ -0,0 +1,36 @@
+type Listener = () => void;
+
+const URL_PARAMETER = 'debug';
+
+const listeners = new Set<Listener>();
+
+// Off for visitors; `?debug` in the page URL turns it on from the start
+let enabled = new URLSearchParams(window.location.search).has(URL_PARAMETER);
+
+/**
+ * Whether the developer control panel, the layout editor and the tuning
+ * presets are shown. It is not remembered, so a reload always hands the museum
+ * back to visitors.
+ */
+export const debugMode = {
+  isEnabled() {
+    return enabled;
+  },
+
+  toggle() {
+    enabled = !enabled;
+    listeners.forEach(listener => listener());
+  },
+
+  /** The key combination that toggles debug mode: Ctrl+Shift+D. */
+  isShortcut(event: KeyboardEvent) {
+    return event.code === 'KeyD' && event.shiftKey && (event.ctrlKey || event.metaKey);
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
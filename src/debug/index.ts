@@ -0,0 +1,15 @@
+export { debugMode } from './debugMode';
+export {
+  DEFAULT_TUNING,
+  LIGHTING_QUALITY_SETTINGS,
+  applyTuning,
+  exportTuning,
+  importTuning,
+  parseTuningPreset,
+  readTuning,
+  type LightingQualitySetting,
+  type TuningPreset
+} from './tuning';
+export { tuningPresets } from './tuningPresets';
+export { useDebugMode, useDebugShortcut } from './useDebugMode';
+export { useTuningPresets } from './useTuningPresets';
@@ -0,0 +1,111 @@
+import { levaStore } from 'leva';
+import shippedTuning from '../data/tuning.json';
+
+export type LightingQualitySetting = 'auto' | 'high' | 'low';
+
+/**
+ * The movement and lighting values tuned in the control panel, grouped by the
+ * panel's folders. `src/data/tuning.json` holds the ones the museum ships with.
+ */
+export interface TuningPreset {
+  Movement: {
+    moveSpeed: number;
+    acceleration: number;
+    deceleration: number;
+    visitorRadius: number;
+    stepHeight: number;
+  };
+  Lighting: {
+    /** Position of the sun, the directional light over the whole exhibition. */
+    lightX: number;
+    lightY: number;
+    lightZ: number;
+    lightingQuality: LightingQualitySetting;
+  };
+}
+
+export const LIGHTING_QUALITY_SETTINGS: LightingQualitySetting[] = ['auto', 'high', 'low'];
+
+type Json = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that `value` holds every tuning value, such as a preset file made by
+ * `exportTuning`. Throws an error naming the first value that is missing or
+ * of the wrong type.
+ */
+export function parseTuningPreset(value: unknown): TuningPreset {
+  const fail = (path: string, expected: string): never => {
+    throw new Error(`Invalid tuning preset: ${path} should be ${expected}`);
+  };
+  if (!isRecord(value)) return fail('the file', 'an object');
+  const movement = isRecord(value.Movement) ? value.Movement : fail('Movement', 'an object');
+  const lighting = isRecord(value.Lighting) ? value.Lighting : fail('Lighting', 'an object');
+
+  const number = (folder: Json, name: string, key: string) => {
+    const item = folder[key];
+    return typeof item === 'number' && Number.isFinite(item) ? item : fail(`${name}.${key}`, 'a number');
+  };
+  const quality = lighting.lightingQuality;
+  if (!LIGHTING_QUALITY_SETTINGS.includes(quality as LightingQualitySetting)) {
+    fail('Lighting.lightingQuality', `one of ${LIGHTING_QUALITY_SETTINGS.join(', ')}`);
+  }
+
+  return {
+    Movement: {
+      moveSpeed: number(movement, 'Movement', 'moveSpeed'),
+      acceleration: number(movement, 'Movement', 'acceleration'),
+      deceleration: number(movement, 'Movement', 'deceleration'),
+      visitorRadius: number(movement, 'Movement', 'visitorRadius'),
+      stepHeight: number(movement, 'Movement', 'stepHeight')
+    },
+    Lighting: {
+      lightX: number(lighting, 'Lighting', 'lightX'),
+      lightY: number(lighting, 'Lighting', 'lightY'),
+      lightZ: number(lighting, 'Lighting', 'lightZ'),
+      lightingQuality: quality as LightingQualitySetting
+    }
+  };
+}
+
+/** The values the control panel starts with. */
+export const DEFAULT_TUNING = parseTuningPreset(shippedTuning);
+
+/** The values currently set in the control panel. Panels that are not mounted keep their defaults. */
+export function readTuning(): TuningPreset {
+  const read = <Folder extends keyof TuningPreset>(folder: Folder) =>
+    Object.fromEntries(
+      Object.entries(DEFAULT_TUNING[folder]).map(([key, fallback]) => [key, levaStore.get(`${folder}.${key}`) ?? fallback])
+    ) as TuningPreset[Folder];
+  return { Movement: read('Movement'), Lighting: read('Lighting') };
+}
+
+/** Sets every value of the preset in the control panel, as if it had been dragged there. */
+export function applyTuning(preset: TuningPreset) {
+  levaStore.set(
+    Object.fromEntries(
+      Object.entries(preset).flatMap(([folder, values]) =>
+        Object.entries(values).map(([key, value]) => [`${folder}.${key}`, value])
+      )
+    ),
+    false
+  );
+}
+
+/** Downloads the preset in the format of `src/data/tuning.json`, ready to ship as the defaults. */
+export function exportTuning(preset: TuningPreset, name = 'tuning') {
+  const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Reads a preset file made by `exportTuning`. Rejects with a `SyntaxError` for malformed JSON or an `Error` naming the bad value. */
+export async function importTuning(file: File): Promise<TuningPreset> {
+  return parseTuningPreset(JSON.parse(await file.text()));
+}
@@ -0,0 +1,63 @@
+import { parseTuningPreset, type TuningPreset } from './tuning';
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'ita-museum.tuning-presets';
+
+const listeners = new Set<Listener>();
+
+// Presets that no longer parse, say after a tuning value was added, are dropped
+function loadPresets(): Record<string, TuningPreset> {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null) return {};
+    return Object.fromEntries(
+      Object.entries(stored).flatMap(([name, value]) => {
+        try {
+          return [[name, parseTuningPreset(value)]];
+        } catch {
+          return [];
+        }
+      })
+    );
+  } catch {
+    return {};
+  }
+}
+
+let presets = loadPresets();
+
+function save() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Could not save the tuning presets:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/** Named tuning presets saved from debug mode, kept in localStorage. */
+export const tuningPresets = {
+  get(): Record<string, TuningPreset> {
+    return presets;
+  },
+
+  /** Saves the preset under `name`, replacing any preset already called that. */
+  save(name: string, preset: TuningPreset) {
+    presets = { ...presets, [name]: preset };
+    save();
+  },
+
+  remove(name: string) {
+    presets = { ...presets };
+    delete presets[name];
+    save();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,23 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { debugMode } from './debugMode';
+
+/** Whether debug mode is on; re-renders when it is toggled. */
+export function useDebugMode() {
+  return useSyncExternalStore(debugMode.subscribe, debugMode.isEnabled);
+}
+
+/** Toggles debug mode with its key combination while `enabled`. Mounted once, by the app. */
+export function useDebugShortcut(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!debugMode.isShortcut(event)) return;
+      event.preventDefault();
+      debugMode.toggle();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
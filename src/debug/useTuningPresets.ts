@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { tuningPresets } from './tuningPresets';
+
+/** The saved tuning presets by name; re-renders when one is saved or removed. */
+export function useTuningPresets() {
+  return useSyncExternalStore(tuningPresets.subscribe, tuningPresets.get);
+}
@@ -0,0 +1,11 @@
+export { applyLayoutChange, exportLayout, importLayout } from './layoutFile';
+export {
+  GRID_CELL_SIZE,
+  ROTATION_SNAP_DEGREES,
+  SCALE_SNAP,
+  type EditorSettings,
+  type LayoutChange,
+  type TransformMode
+} from './settings';
+export { getTransformControlsProps, readLayoutChange } from './transform';
+export { useHistory } from './useHistory';
@@ -0,0 +1,35 @@
+import { parseExhibition, type Exhibition } from '../exhibition';
+import type { LayoutChange } from './settings';
+
+/** Returns a copy of the exhibition with one wall, stand or platform moved. */
+export function applyLayoutChange(exhibition: Exhibition, id: string, change: LayoutChange): Exhibition {
+  return {
+    ...exhibition,
+    rooms: exhibition.rooms.map(room => ({
+      ...room,
+      walls: room.walls.map(wall => (wall.id === id ? { ...wall, ...change } : wall)),
+      stands: room.stands.map(stand => (stand.id === id ? { ...stand, ...change } : stand)),
+      platforms: room.platforms.map(platform => (platform.id === id ? { ...platform, ...change } : platform))
+    }))
+  };
+}
+
+/** Downloads the exhibition in manifest format, ready to replace `src/data/exhibition.json`. */
+export function exportLayout(exhibition: Exhibition) {
+  const blob = new Blob([JSON.stringify(exhibition, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${exhibition.id}-layout.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a layout file exported by `exportLayout` (or any manifest).
+ * Rejects with a `SyntaxError` for malformed JSON or an `ExhibitionManifestError`.
+ */
+export async function importLayout(file: File): Promise<Exhibition> {
+  const text = await file.text();
+  return parseExhibition(JSON.parse(text));
+}
@@ -0,0 +1,20 @@
+import type { Vec3 } from '../exhibition';
+
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+export interface EditorSettings {
+  mode: TransformMode;
+  snap: boolean;
+}
+
+/** A wall or stand's new placement after a gizmo drag. */
+export interface LayoutChange {
+  position: Vec3;
+  rotationY: number;
+  size: Vec3;
+}
+
+/** Matches the cell size of the floor grid drawn by `showGrid`. */
+export const GRID_CELL_SIZE = 1;
+export const ROTATION_SNAP_DEGREES = 15;
+export const SCALE_SNAP = 0.1;
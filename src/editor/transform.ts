@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import type { Vec3 } from '../exhibition';
+import { GRID_CELL_SIZE, ROTATION_SNAP_DEGREES, SCALE_SNAP, type EditorSettings, type LayoutChange } from './settings';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Reads an object's placement after a gizmo drag. Scale is baked into `size`
+ * and reset, so the manifest never has to describe a scaled wall.
+ */
+export function readLayoutChange(object: THREE.Object3D, size: Vec3): LayoutChange {
+  const change: LayoutChange = {
+    position: [round(object.position.x), round(object.position.y), round(object.position.z)],
+    rotationY: round(THREE.MathUtils.radToDeg(object.rotation.y)),
+    size: [round(size[0] * object.scale.x), round(size[1] * object.scale.y), round(size[2] * object.scale.z)]
+  };
+  object.scale.set(1, 1, 1);
+  return change;
+}
+
+/** Props for drei's `TransformControls` matching the editor's mode and snapping. */
+export function getTransformControlsProps({ mode, snap }: EditorSettings) {
+  return {
+    mode,
+    // Walls and stands stand on the floor and only turn about the vertical axis
+    showX: mode !== 'rotate',
+    showY: mode !== 'translate',
+    showZ: mode !== 'rotate',
+    translationSnap: snap ? GRID_CELL_SIZE : null,
+    rotationSnap: snap ? THREE.MathUtils.degToRad(ROTATION_SNAP_DEGREES) : null,
+    scaleSnap: snap ? SCALE_SNAP : null
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/** State with an undo/redo stack. Every `set` becomes one undoable step. */
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: (current: T) => T) => {
+    setHistory(({ past, present }) => {
+      const next = update(present);
+      if (next === present) return { past, present, future: [] };
+      return { past: [...past, present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      const previous = current.past[current.past.length - 1];
+      return { past: current.past.slice(0, -1), present: previous, future: [current.present, ...current.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      const [next, ...future] = current.future;
+      return { past: [...current.past, current.present], present: next, future };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
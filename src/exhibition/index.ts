@@ -0,0 +1,14 @@
+import manifest from '../data/exhibition.json';
+import { parseExhibition } from './parseExhibition';
+import type { Exhibition } from './types';
+
+export { ExhibitionManifestError, parseExhibition } from './parseExhibition';
+export { getLabelPlacements, type LabelPlacement } from './labels';
+export { localizeExhibition } from './localize';
+export { findRoomAt, getNearbyRoomIds, roomContains } from './rooms';
+export type * from './types';
+
+/** Loads and validates the bundled exhibition manifest. */
+export function loadExhibition(): Exhibition {
+  return parseExhibition(manifest);
+}
@@ -0,0 +1,82 @@
+import type { ExhibitDefinition, RoomDefinition, StandDefinition, Vec3 } from './types';
+
+/** Where the wall label of an exhibit hangs: on the side of its stand that faces into the room. */
+export interface LabelPlacement {
+  exhibit: ExhibitDefinition;
+  position: Vec3;
+  /** Rotation about the vertical axis, in degrees; the label faces its local +z. */
+  rotationY: number;
+  /** Width and height of the label in metres. */
+  size: [number, number];
+}
+
+const LABEL_SIZE: [number, number] = [0.7, 0.4];
+// Gap between the label and the stand, and between the label and the top of the stand
+const LABEL_OFFSET = 0.01;
+const LABEL_TOP_MARGIN = 0.08;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// The exhibit's position in the stand's own frame, where the stand is axis-aligned
+function toStandFrame(stand: StandDefinition, x: number, z: number) {
+  const angle = toRadians(stand.rotationY);
+  const dx = x - stand.position[0];
+  const dz = z - stand.position[2];
+  return {
+    x: dx * Math.cos(angle) - dz * Math.sin(angle),
+    z: dx * Math.sin(angle) + dz * Math.cos(angle)
+  };
+}
+
+function findStandUnder(room: RoomDefinition, exhibit: ExhibitDefinition) {
+  return room.stands.find(stand => {
+    const local = toStandFrame(stand, exhibit.position[0], exhibit.position[2]);
+    return Math.abs(local.x) <= stand.size[0] / 2 && Math.abs(local.z) <= stand.size[2] / 2;
+  });
+}
+
+/**
+ * Wall labels for every exhibit standing on a stand, each on the stand face
+ * that points most directly at the middle of the room, where visitors walk.
+ */
+export function getLabelPlacements(room: RoomDefinition): LabelPlacement[] {
+  return room.exhibits.flatMap(exhibit => {
+    const stand = findStandUnder(room, exhibit);
+    if (!stand) return [];
+
+    const [width, height, depth] = stand.size;
+    const towardsRoom = toStandFrame(stand, room.floor.center[0], room.floor.center[1]);
+
+    // Faces as (local normal, half extent along it, width of the face), turn in degrees
+    const faces = [
+      { x: 0, z: 1, extent: depth / 2, faceWidth: width, turn: 0 },
+      { x: 1, z: 0, extent: width / 2, faceWidth: depth, turn: 90 },
+      { x: 0, z: -1, extent: depth / 2, faceWidth: width, turn: 180 },
+      { x: -1, z: 0, extent: width / 2, faceWidth: depth, turn: -90 }
+    ];
+    const face = faces.reduce((best, candidate) =>
+      candidate.x * towardsRoom.x + candidate.z * towardsRoom.z > best.x * towardsRoom.x + best.z * towardsRoom.z
+        ? candidate
+        : best
+    );
+
+    const size: [number, number] = [
+      Math.min(LABEL_SIZE[0], face.faceWidth - 0.1),
+      Math.min(LABEL_SIZE[1], height - LABEL_TOP_MARGIN * 2)
+    ];
+    if (size[0] <= 0 || size[1] <= 0) return [];
+
+    // Back from the stand's frame into the world
+    const angle = toRadians(stand.rotationY);
+    const distance = face.extent + LABEL_OFFSET;
+    const localX = face.x * distance;
+    const localZ = face.z * distance;
+    const position: Vec3 = [
+      stand.position[0] + localX * Math.cos(angle) + localZ * Math.sin(angle),
+      stand.position[1] + height / 2 - LABEL_TOP_MARGIN - size[1] / 2,
+      stand.position[2] - localX * Math.sin(angle) + localZ * Math.cos(angle)
+    ];
+
+    return [{ exhibit, position, rotationY: stand.rotationY + face.turn, size }];
+  });
+}
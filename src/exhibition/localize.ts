@@ -0,0 +1,71 @@
+import type { Exhibition, ExhibitMetadata, TranslatedEntry } from './types';
+
+/**
+ * The exhibition with its visitor-facing text in the first of `languages` that
+ * has it. Walking down the list stops at the manifest's own language, whose
+ * text is always complete. Layout and ids are untouched, so this is only for
+ * display; the editor keeps working on the original.
+ */
+export function localizeExhibition(exhibition: Exhibition, languages: string[]): Exhibition {
+  const ownLanguage = languages.indexOf(exhibition.language);
+  const chain = ownLanguage === -1 ? languages : languages.slice(0, ownLanguage);
+
+  const pick = <T>(id: string, read: (entry: TranslatedEntry) => T | undefined, original: T): T => {
+    for (const language of chain) {
+      const entry = exhibition.translations[language]?.[id];
+      const translated = entry && read(entry);
+      if (translated !== undefined) return translated;
+    }
+    return original;
+  };
+
+  const localizeMetadata = (id: string, metadata: ExhibitMetadata): ExhibitMetadata => ({
+    ...metadata,
+    artist: pick(id, entry => entry.metadata?.artist, metadata.artist),
+    date: pick(id, entry => entry.metadata?.date, metadata.date),
+    origin: pick(id, entry => entry.metadata?.origin, metadata.origin),
+    medium: pick(id, entry => entry.metadata?.medium, metadata.medium),
+    dimensions: pick(id, entry => entry.metadata?.dimensions, metadata.dimensions),
+    provenance: pick(id, entry => entry.metadata?.provenance, metadata.provenance),
+    creditLine: pick(id, entry => entry.metadata?.creditLine, metadata.creditLine),
+    tags: pick(id, entry => entry.metadata?.tags, metadata.tags)
+  });
+
+  return {
+    ...exhibition,
+    title: pick(exhibition.id, entry => entry.title, exhibition.title),
+    rooms: exhibition.rooms.map(room => ({
+      ...room,
+      name: pick(room.id, entry => entry.name, room.name),
+      exhibits: room.exhibits.map(exhibit => ({
+        ...exhibit,
+        title: pick(exhibit.id, entry => entry.title, exhibit.title),
+        description: pick(exhibit.id, entry => entry.description, exhibit.description),
+        metadata: localizeMetadata(exhibit.id, exhibit.metadata),
+        narrationUrl: pick(exhibit.id, entry => entry.narrationUrl, exhibit.narrationUrl),
+        hotspots: exhibit.hotspots.map(hotspot => ({
+          ...hotspot,
+          title: pick(hotspot.id, entry => entry.title, hotspot.title),
+          text: pick(hotspot.id, entry => entry.text, hotspot.text),
+          audioUrl: pick(hotspot.id, entry => entry.audioUrl, hotspot.audioUrl)
+        }))
+      })),
+      screens: room.screens.map(screen => ({
+        ...screen,
+        title: pick(screen.id, entry => entry.title, screen.title),
+        description: pick(screen.id, entry => entry.description, screen.description),
+        captionsUrl: pick(screen.id, entry => entry.captionsUrl, screen.captionsUrl)
+      }))
+    })),
+    tours: exhibition.tours.map(tour => ({
+      ...tour,
+      title: pick(tour.id, entry => entry.title, tour.title),
+      stops: tour.stops.map((stop, index) => ({
+        ...stop,
+        title: pick(tour.id, entry => entry.stops?.[index]?.title, stop.title),
+        text: pick(tour.id, entry => entry.stops?.[index]?.text, stop.text),
+        audioUrl: pick(tour.id, entry => entry.stops?.[index]?.audioUrl, stop.audioUrl)
+      }))
+    }))
+  };
+}
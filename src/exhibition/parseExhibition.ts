@@ -0,0 +1,712 @@
+import type {
+  Exhibition,
+  ExhibitDefinition,
+  ExhibitMetadata,
+  ExhibitReference,
+  ExhibitModelDefinition,
+  InspectionDefinition,
+  KioskDefinition,
+  LightingPresetName,
+  DoorwayDefinition,
+  PlatformDefinition,
+  RampDefinition,
+  FloorDefinition,
+  HotspotDefinition,
+  RoomDefinition,
+  RoomAmbienceDefinition,
+  RoomLightDefinition,
+  SpotlightDefinition,
+  StairsDefinition,
+  StandDefinition,
+  TourDefinition,
+  TourStopDefinition,
+  TranslatedEntry,
+  TranslatedTourStop,
+  Vec3,
+  VideoScreenDefinition,
+  WallDefinition
+} from './types';
+
+const DEFAULT_WALL_COLOR = '#fde047';
+const DEFAULT_STAND_COLOR = '#3b82f6';
+const DEFAULT_FLOOR_COLOR = '#e879f9';
+const DEFAULT_PLATFORM_COLOR = '#a8a29e';
+const DEFAULT_SCREEN_PLAY_RANGE = 6;
+const DEFAULT_LIGHT_COLOR = '#ffffff';
+const DEFAULT_AMBIENCE_VOLUME = 0.4;
+const DEFAULT_LANGUAGE = 'en';
+const DEFAULT_KIOSK_IDLE_TIMEOUT = 120;
+const DEFAULT_KIOSK_ATTRACT_DELAY = 30;
+// Steps taller than this cannot be climbed with the default step height, and
+// steeper ramps could be climbed faster than the ground is followed
+const MAX_STEP_RISE = 0.25;
+const MAX_RAMP_SLOPE = 0.5;
+const LIGHTING_PRESETS: LightingPresetName[] = ['gallery', 'evening', 'highContrast'];
+
+export class ExhibitionManifestError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid exhibition manifest:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ExhibitionManifestError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Collects every problem in the manifest instead of stopping at the first one,
+// so curators can fix a broken file in a single pass.
+class ManifestReader {
+  readonly issues: string[] = [];
+  private readonly seenIds = new Map<string, string>();
+
+  record(value: unknown, path: string): Json | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.issues.push(`${path}: expected an object`);
+      return null;
+    }
+    return value as Json;
+  }
+
+  array(source: Json, key: string, path: string): unknown[] {
+    const value = source[key];
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path}.${key}: expected an array`);
+      return [];
+    }
+    return value;
+  }
+
+  optionalArray(source: Json, key: string, path: string): unknown[] {
+    return source[key] === undefined ? [] : this.array(source, key, path);
+  }
+
+  string(source: Json, key: string, path: string, fallback?: string): string {
+    const value = source[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.issues.push(`${path}.${key}: expected a non-empty string`);
+      return fallback ?? '';
+    }
+    return value;
+  }
+
+  optionalString(source: Json, key: string, path: string): string | undefined {
+    return source[key] === undefined ? undefined : this.string(source, key, path);
+  }
+
+  number(source: Json, key: string, path: string, { positive = false } = {}): number {
+    const value = source[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.issues.push(`${path}.${key}: expected a number`);
+      return 0;
+    }
+    if (positive && value <= 0) {
+      this.issues.push(`${path}.${key}: expected a positive number, got ${value}`);
+    }
+    return value;
+  }
+
+  // Media is served with the app, so the museum does not depend on a network it may not have
+  localUrl(source: Json, key: string, path: string): string {
+    const value = this.string(source, key, path);
+    if (value && (!value.startsWith('/') || value.startsWith('//'))) {
+      this.issues.push(`${path}.${key}: expected a file under public/, starting with "/", got "${value}"`);
+    }
+    return value;
+  }
+
+  optionalLocalUrl(source: Json, key: string, path: string): string | undefined {
+    return source[key] === undefined ? undefined : this.localUrl(source, key, path);
+  }
+
+  optionalNumber(source: Json, key: string, path: string, options?: { positive?: boolean }): number | undefined {
+    return source[key] === undefined ? undefined : this.number(source, key, path, options);
+  }
+
+  optionalBoolean(source: Json, key: string, path: string): boolean | undefined {
+    const value = source[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${path}.${key}: expected true or false`);
+      return undefined;
+    }
+    return value;
+  }
+
+  vec3(source: Json, key: string, path: string, { positive = false } = {}): Vec3 {
+    const [x, y, z] = this.numbers(source, key, path, 3, '[x, y, z]', positive);
+    return [x, y, z];
+  }
+
+  vec2(source: Json, key: string, path: string, { positive = false, label = '[width, depth]' } = {}): [number, number] {
+    const [x, y] = this.numbers(source, key, path, 2, label, positive);
+    return [x, y];
+  }
+
+  private numbers(source: Json, key: string, path: string, length: number, label: string, positive: boolean): number[] {
+    const value = source[key];
+    if (
+      !Array.isArray(value) ||
+      value.length !== length ||
+      !value.every(item => typeof item === 'number' && Number.isFinite(item))
+    ) {
+      this.issues.push(`${path}.${key}: expected ${label} as ${length} numbers`);
+      return new Array(length).fill(positive ? 1 : 0);
+    }
+    if (positive && value.some(item => item <= 0)) {
+      this.issues.push(`${path}.${key}: every dimension must be positive`);
+    }
+    return value;
+  }
+
+  hasId(id: string) {
+    return this.seenIds.has(id);
+  }
+
+  id(source: Json, path: string): string {
+    const id = this.string(source, 'id', path);
+    if (id) {
+      const previous = this.seenIds.get(id);
+      if (previous) {
+        this.issues.push(`${path}.id: "${id}" is already used by ${previous}`);
+      } else {
+        this.seenIds.set(id, path);
+      }
+    }
+    return id;
+  }
+}
+
+function parseFloor(reader: ManifestReader, value: unknown, path: string): FloorDefinition {
+  const floor = reader.record(value, path);
+  if (!floor) return { center: [0, 0], size: [1, 1], color: DEFAULT_FLOOR_COLOR };
+  return {
+    center: floor.center === undefined ? [0, 0] : reader.vec2(floor, 'center', path, { label: '[x, z]' }),
+    size: reader.vec2(floor, 'size', path, { positive: true }),
+    color: reader.string(floor, 'color', path, DEFAULT_FLOOR_COLOR)
+  };
+}
+
+function parseLight(reader: ManifestReader, value: unknown, path: string): RoomLightDefinition | null {
+  const light = reader.record(value, path);
+  if (!light) return null;
+  return {
+    position: reader.vec3(light, 'position', path),
+    color: reader.string(light, 'color', path, DEFAULT_LIGHT_COLOR),
+    intensity: reader.number(light, 'intensity', path, { positive: true }),
+    distance: reader.number(light, 'distance', path, { positive: true })
+  };
+}
+
+function parseSpotlight(reader: ManifestReader, value: unknown, path: string): SpotlightDefinition | undefined {
+  if (value === undefined) return undefined;
+  const spotlight = reader.record(value, path);
+  if (!spotlight) return undefined;
+
+  const parsed: SpotlightDefinition = {
+    enabled: reader.optionalBoolean(spotlight, 'enabled', path),
+    intensity: reader.optionalNumber(spotlight, 'intensity', path, { positive: true }),
+    angle: reader.optionalNumber(spotlight, 'angle', path, { positive: true }),
+    castShadow: reader.optionalBoolean(spotlight, 'castShadow', path),
+    shadowMapSize: reader.optionalNumber(spotlight, 'shadowMapSize', path, { positive: true }),
+    shadowBias: reader.optionalNumber(spotlight, 'shadowBias', path)
+  };
+
+  if (parsed.angle !== undefined && parsed.angle >= 90) {
+    reader.issues.push(`${path}.angle: expected less than 90 degrees, got ${parsed.angle}`);
+  }
+  const mapSize = parsed.shadowMapSize;
+  if (mapSize !== undefined && (!Number.isInteger(Math.log2(mapSize)) || mapSize < 256 || mapSize > 4096)) {
+    reader.issues.push(`${path}.shadowMapSize: expected a power of two from 256 to 4096, got ${mapSize}`);
+  }
+  return parsed;
+}
+
+function parseWall(reader: ManifestReader, value: unknown, path: string): WallDefinition | null {
+  const wall = reader.record(value, path);
+  if (!wall) return null;
+  return {
+    id: reader.id(wall, path),
+    name: reader.string(wall, 'name', path),
+    position: reader.vec3(wall, 'position', path),
+    size: reader.vec3(wall, 'size', path, { positive: true }),
+    rotationY: reader.optionalNumber(wall, 'rotationY', path) ?? 0,
+    color: reader.string(wall, 'color', path, DEFAULT_WALL_COLOR),
+    textureUrl: reader.optionalLocalUrl(wall, 'textureUrl', path),
+    spotlight: parseSpotlight(reader, wall.spotlight, `${path}.spotlight`)
+  };
+}
+
+function parseStand(reader: ManifestReader, value: unknown, path: string): StandDefinition | null {
+  const stand = reader.record(value, path);
+  if (!stand) return null;
+  return {
+    id: reader.id(stand, path),
+    name: reader.string(stand, 'name', path),
+    position: reader.vec3(stand, 'position', path),
+    size: reader.vec3(stand, 'size', path, { positive: true }),
+    rotationY: reader.optionalNumber(stand, 'rotationY', path) ?? 0,
+    color: reader.string(stand, 'color', path, DEFAULT_STAND_COLOR)
+  };
+}
+
+function parsePlatform(reader: ManifestReader, value: unknown, path: string): PlatformDefinition | null {
+  const platform = reader.record(value, path);
+  if (!platform) return null;
+  return {
+    id: reader.id(platform, path),
+    name: reader.string(platform, 'name', path),
+    position: reader.vec3(platform, 'position', path),
+    size: reader.vec3(platform, 'size', path, { positive: true }),
+    rotationY: reader.optionalNumber(platform, 'rotationY', path) ?? 0,
+    color: reader.string(platform, 'color', path, DEFAULT_PLATFORM_COLOR)
+  };
+}
+
+function parseStairs(reader: ManifestReader, value: unknown, path: string): StairsDefinition | null {
+  const stairs = reader.record(value, path);
+  if (!stairs) return null;
+
+  const rise = reader.number(stairs, 'rise', path, { positive: true });
+  const steps = reader.number(stairs, 'steps', path, { positive: true });
+  if (!Number.isInteger(steps)) {
+    reader.issues.push(`${path}.steps: expected a whole number, got ${steps}`);
+  } else if (steps > 0 && rise / steps > MAX_STEP_RISE) {
+    const stepRise = (rise / steps).toFixed(2);
+    reader.issues.push(`${path}.steps: each step would rise ${stepRise}m, but at most ${MAX_STEP_RISE}m can be climbed`);
+  }
+  return {
+    id: reader.id(stairs, path),
+    name: reader.string(stairs, 'name', path),
+    position: reader.vec3(stairs, 'position', path),
+    rotationY: reader.optionalNumber(stairs, 'rotationY', path) ?? 0,
+    width: reader.number(stairs, 'width', path, { positive: true }),
+    length: reader.number(stairs, 'length', path, { positive: true }),
+    rise,
+    steps,
+    color: reader.string(stairs, 'color', path, DEFAULT_PLATFORM_COLOR)
+  };
+}
+
+function parseRamp(reader: ManifestReader, value: unknown, path: string): RampDefinition | null {
+  const ramp = reader.record(value, path);
+  if (!ramp) return null;
+
+  const length = reader.number(ramp, 'length', path, { positive: true });
+  const rise = reader.number(ramp, 'rise', path, { positive: true });
+  if (length > 0 && rise / length > MAX_RAMP_SLOPE) {
+    const slope = (rise / length).toFixed(2);
+    reader.issues.push(`${path}.rise: expected at most ${MAX_RAMP_SLOPE}m of rise per metre of length, got ${slope}`);
+  }
+  return {
+    id: reader.id(ramp, path),
+    name: reader.string(ramp, 'name', path),
+    position: reader.vec3(ramp, 'position', path),
+    rotationY: reader.optionalNumber(ramp, 'rotationY', path) ?? 0,
+    width: reader.number(ramp, 'width', path, { positive: true }),
+    length,
+    rise,
+    color: reader.string(ramp, 'color', path, DEFAULT_PLATFORM_COLOR)
+  };
+}
+
+function parseModel(reader: ManifestReader, value: unknown, path: string): ExhibitModelDefinition {
+  const fallback: ExhibitModelDefinition = { type: 'box', size: 1 };
+  const model = reader.record(value, path);
+  if (!model) return fallback;
+
+  switch (model.type) {
+    case 'box':
+      return {
+        type: 'box',
+        size: reader.number(model, 'size', path, { positive: true }),
+        textureUrl: reader.optionalLocalUrl(model, 'textureUrl', path)
+      };
+    case 'gltf':
+      return {
+        type: 'gltf',
+        url: reader.localUrl(model, 'url', path),
+        size: reader.number(model, 'size', path, { positive: true })
+      };
+    default:
+      reader.issues.push(`${path}.type: unknown model type ${JSON.stringify(model.type)} (expected "box" or "gltf")`);
+      return fallback;
+  }
+}
+
+function parseInspection(reader: ManifestReader, value: unknown, path: string): InspectionDefinition | undefined {
+  if (value === undefined) return undefined;
+  const inspection = reader.record(value, path);
+  if (!inspection) return undefined;
+
+  const parsed: InspectionDefinition = {
+    distance: reader.optionalNumber(inspection, 'distance', path, { positive: true }),
+    minDistance: reader.optionalNumber(inspection, 'minDistance', path, { positive: true }),
+    maxDistance: reader.optionalNumber(inspection, 'maxDistance', path, { positive: true }),
+    rotation:
+      inspection.rotation === undefined
+        ? undefined
+        : reader.vec2(inspection, 'rotation', path, { label: '[pitch, yaw]' }),
+    maxPitch: reader.optionalNumber(inspection, 'maxPitch', path, { positive: true }),
+    maxYaw: reader.optionalNumber(inspection, 'maxYaw', path, { positive: true }),
+    trackball: reader.optionalBoolean(inspection, 'trackball', path)
+  };
+
+  const { distance, minDistance, maxDistance } = parsed;
+  if (minDistance !== undefined && maxDistance !== undefined && minDistance > maxDistance) {
+    reader.issues.push(`${path}: minDistance must not be greater than maxDistance`);
+  }
+  if (distance !== undefined && ((minDistance ?? 0) > distance || distance > (maxDistance ?? Infinity))) {
+    reader.issues.push(`${path}.distance: must lie between minDistance and maxDistance`);
+  }
+  return parsed;
+}
+
+function parseHotspot(reader: ManifestReader, value: unknown, path: string): HotspotDefinition | null {
+  const hotspot = reader.record(value, path);
+  if (!hotspot) return null;
+
+  const parsed: HotspotDefinition = {
+    id: reader.id(hotspot, path),
+    title: reader.string(hotspot, 'title', path),
+    position: reader.vec3(hotspot, 'position', path),
+    normal: hotspot.normal === undefined ? undefined : reader.vec3(hotspot, 'normal', path),
+    text: reader.optionalString(hotspot, 'text', path),
+    imageUrl: reader.optionalLocalUrl(hotspot, 'imageUrl', path),
+    audioUrl: reader.optionalLocalUrl(hotspot, 'audioUrl', path)
+  };
+
+  if (!parsed.text && !parsed.imageUrl && !parsed.audioUrl) {
+    reader.issues.push(`${path}: a hotspot needs a text, imageUrl or audioUrl`);
+  }
+  if (parsed.normal?.every(component => component === 0)) {
+    reader.issues.push(`${path}.normal: must not be [0, 0, 0]`);
+  }
+  return parsed;
+}
+
+function parseReference(reader: ManifestReader, value: unknown, path: string): ExhibitReference | null {
+  const reference = reader.record(value, path);
+  if (!reference) return null;
+  return {
+    label: reader.string(reference, 'label', path),
+    url: reader.string(reference, 'url', path)
+  };
+}
+
+function parseMetadata(reader: ManifestReader, value: unknown, path: string): ExhibitMetadata {
+  const empty: ExhibitMetadata = { tags: [], references: [] };
+  if (value === undefined) return empty;
+  const metadata = reader.record(value, path);
+  if (!metadata) return empty;
+
+  const tags = reader.optionalArray(metadata, 'tags', path).filter((tag, index) => {
+    if (typeof tag === 'string' && tag.trim() !== '') return true;
+    reader.issues.push(`${path}.tags[${index}]: expected a non-empty string`);
+    return false;
+  }) as string[];
+
+  return {
+    artist: reader.optionalString(metadata, 'artist', path),
+    date: reader.optionalString(metadata, 'date', path),
+    origin: reader.optionalString(metadata, 'origin', path),
+    medium: reader.optionalString(metadata, 'medium', path),
+    dimensions: reader.optionalString(metadata, 'dimensions', path),
+    provenance: reader.optionalString(metadata, 'provenance', path),
+    creditLine: reader.optionalString(metadata, 'creditLine', path),
+    tags,
+    references: reader
+      .optionalArray(metadata, 'references', path)
+      .map((reference, index) => parseReference(reader, reference, `${path}.references[${index}]`))
+      .filter((reference): reference is ExhibitReference => reference !== null)
+  };
+}
+
+function parseExhibit(reader: ManifestReader, value: unknown, path: string): ExhibitDefinition | null {
+  const exhibit = reader.record(value, path);
+  if (!exhibit) return null;
+  return {
+    id: reader.id(exhibit, path),
+    title: reader.string(exhibit, 'title', path),
+    description: reader.string(exhibit, 'description', path),
+    metadata: parseMetadata(reader, exhibit.metadata, `${path}.metadata`),
+    position: reader.vec3(exhibit, 'position', path),
+    interactionDistance: reader.optionalNumber(exhibit, 'interactionDistance', path, { positive: true }),
+    model: parseModel(reader, exhibit.model, `${path}.model`),
+    inspection: parseInspection(reader, exhibit.inspection, `${path}.inspection`),
+    hotspots: reader
+      .optionalArray(exhibit, 'hotspots', path)
+      .map((hotspot, index) => parseHotspot(reader, hotspot, `${path}.hotspots[${index}]`))
+      .filter((hotspot): hotspot is HotspotDefinition => hotspot !== null),
+    narrationUrl: reader.optionalLocalUrl(exhibit, 'narrationUrl', path),
+    spotlight: parseSpotlight(reader, exhibit.spotlight, `${path}.spotlight`)
+  };
+}
+
+function parseScreen(reader: ManifestReader, value: unknown, path: string): VideoScreenDefinition | null {
+  const screen = reader.record(value, path);
+  if (!screen) return null;
+  return {
+    id: reader.id(screen, path),
+    title: reader.string(screen, 'title', path),
+    description: reader.optionalString(screen, 'description', path),
+    position: reader.vec3(screen, 'position', path),
+    size: reader.vec2(screen, 'size', path, { positive: true, label: '[width, height]' }),
+    rotationY: reader.optionalNumber(screen, 'rotationY', path) ?? 0,
+    videoUrl: reader.localUrl(screen, 'videoUrl', path),
+    captionsUrl: reader.optionalLocalUrl(screen, 'captionsUrl', path),
+    playRange: reader.optionalNumber(screen, 'playRange', path, { positive: true }) ?? DEFAULT_SCREEN_PLAY_RANGE,
+    interactionDistance: reader.optionalNumber(screen, 'interactionDistance', path, { positive: true })
+  };
+}
+
+function parseAmbience(reader: ManifestReader, value: unknown, path: string): RoomAmbienceDefinition | undefined {
+  if (value === undefined) return undefined;
+  const ambience = reader.record(value, path);
+  if (!ambience) return undefined;
+
+  const volume = reader.optionalNumber(ambience, 'volume', path) ?? DEFAULT_AMBIENCE_VOLUME;
+  if (volume < 0 || volume > 1) {
+    reader.issues.push(`${path}.volume: expected a number from 0 to 1, got ${volume}`);
+  }
+  return { url: reader.localUrl(ambience, 'url', path), volume };
+}
+
+function parseRoom(reader: ManifestReader, value: unknown, path: string): RoomDefinition | null {
+  const room = reader.record(value, path);
+  if (!room) return null;
+
+  const parseList = <T>(key: string, parse: (reader: ManifestReader, value: unknown, path: string) => T | null) =>
+    reader
+      .optionalArray(room, key, path)
+      .map((item, index) => parse(reader, item, `${path}.${key}[${index}]`))
+      .filter((item): item is T => item !== null);
+
+  return {
+    id: reader.id(room, path),
+    name: reader.string(room, 'name', path),
+    floor: parseFloor(reader, room.floor, `${path}.floor`),
+    lights: parseList('lights', parseLight),
+    walls: parseList('walls', parseWall),
+    stands: parseList('stands', parseStand),
+    platforms: parseList('platforms', parsePlatform),
+    stairs: parseList('stairs', parseStairs),
+    ramps: parseList('ramps', parseRamp),
+    exhibits: parseList('exhibits', parseExhibit),
+    screens: parseList('screens', parseScreen),
+    ambience: parseAmbience(reader, room.ambience, `${path}.ambience`)
+  };
+}
+
+function parseDoorway(
+  reader: ManifestReader,
+  value: unknown,
+  path: string,
+  roomIds: Set<string>
+): DoorwayDefinition | null {
+  const doorway = reader.record(value, path);
+  if (!doorway) return null;
+
+  const rooms = doorway.rooms;
+  let connected: [string, string] = ['', ''];
+  if (!Array.isArray(rooms) || rooms.length !== 2 || !rooms.every(room => typeof room === 'string')) {
+    reader.issues.push(`${path}.rooms: expected the ids of the two rooms it connects`);
+  } else {
+    connected = [rooms[0], rooms[1]];
+    connected
+      .filter(room => !roomIds.has(room))
+      .forEach(room => reader.issues.push(`${path}.rooms: there is no room with id "${room}"`));
+    if (connected[0] === connected[1]) {
+      reader.issues.push(`${path}.rooms: a doorway must connect two different rooms`);
+    }
+  }
+
+  return {
+    id: reader.id(doorway, path),
+    rooms: connected,
+    position: reader.vec3(doorway, 'position', path),
+    width: reader.number(doorway, 'width', path, { positive: true })
+  };
+}
+
+function parseTourStop(reader: ManifestReader, value: unknown, path: string): TourStopDefinition | null {
+  const stop = reader.record(value, path);
+  if (!stop) return null;
+  return {
+    title: reader.string(stop, 'title', path),
+    text: reader.string(stop, 'text', path),
+    position: reader.vec3(stop, 'position', path),
+    lookAt: reader.vec3(stop, 'lookAt', path),
+    dwell: reader.number(stop, 'dwell', path, { positive: true }),
+    audioUrl: reader.optionalLocalUrl(stop, 'audioUrl', path)
+  };
+}
+
+function parseTour(reader: ManifestReader, value: unknown, path: string): TourDefinition | null {
+  const tour = reader.record(value, path);
+  if (!tour) return null;
+
+  const stops = reader
+    .array(tour, 'stops', path)
+    .map((stop, index) => parseTourStop(reader, stop, `${path}.stops[${index}]`))
+    .filter((stop): stop is TourStopDefinition => stop !== null);
+
+  if (Array.isArray(tour.stops) && tour.stops.length === 0) {
+    reader.issues.push(`${path}.stops: a tour needs at least one stop`);
+  }
+
+  return {
+    id: reader.id(tour, path),
+    title: reader.string(tour, 'title', path),
+    stops
+  };
+}
+
+const TRANSLATED_FIELDS = ['name', 'title', 'description', 'text'] as const;
+const TRANSLATED_MEDIA_FIELDS = ['audioUrl', 'narrationUrl', 'captionsUrl'] as const;
+const TRANSLATED_METADATA_FIELDS = ['artist', 'date', 'origin', 'medium', 'dimensions', 'provenance', 'creditLine'] as const;
+
+function parseTranslatedStop(reader: ManifestReader, value: unknown, path: string): TranslatedTourStop {
+  const stop = reader.record(value, path);
+  if (!stop) return {};
+  return {
+    title: reader.optionalString(stop, 'title', path),
+    text: reader.optionalString(stop, 'text', path),
+    audioUrl: reader.optionalLocalUrl(stop, 'audioUrl', path)
+  };
+}
+
+function parseTranslatedEntry(reader: ManifestReader, value: unknown, path: string): TranslatedEntry {
+  const entry = reader.record(value, path);
+  if (!entry) return {};
+
+  const translated: TranslatedEntry = {};
+  TRANSLATED_FIELDS.forEach(field => {
+    translated[field] = reader.optionalString(entry, field, path);
+  });
+  TRANSLATED_MEDIA_FIELDS.forEach(field => {
+    translated[field] = reader.optionalLocalUrl(entry, field, path);
+  });
+
+  if (entry.metadata !== undefined) {
+    const metadataPath = `${path}.metadata`;
+    const metadata = reader.record(entry.metadata, metadataPath);
+    if (metadata) {
+      const translatedMetadata: NonNullable<TranslatedEntry['metadata']> = {};
+      TRANSLATED_METADATA_FIELDS.forEach(field => {
+        translatedMetadata[field] = reader.optionalString(metadata, field, metadataPath);
+      });
+      if (metadata.tags !== undefined) {
+        translatedMetadata.tags = parseMetadata(reader, { tags: metadata.tags }, metadataPath).tags;
+      }
+      translated.metadata = translatedMetadata;
+    }
+  }
+
+  if (entry.stops !== undefined) {
+    translated.stops = reader
+      .array(entry, 'stops', path)
+      .map((stop, index) => parseTranslatedStop(reader, stop, `${path}.stops[${index}]`));
+  }
+  return translated;
+}
+
+function parseLightingPreset(reader: ManifestReader, root: Json): LightingPresetName {
+  const preset = reader.string(root, 'lightingPreset', 'exhibition', LIGHTING_PRESETS[0]);
+  if (!LIGHTING_PRESETS.includes(preset as LightingPresetName)) {
+    reader.issues.push(`exhibition.lightingPreset: expected one of ${LIGHTING_PRESETS.join(', ')}, got "${preset}"`);
+    return LIGHTING_PRESETS[0];
+  }
+  return preset as LightingPresetName;
+}
+
+function parseKiosk(reader: ManifestReader, root: Json): KioskDefinition {
+  const path = 'exhibition.kiosk';
+  const kiosk = root.kiosk === undefined ? {} : reader.record(root.kiosk, path) ?? {};
+  return {
+    enabled: reader.optionalBoolean(kiosk, 'enabled', path) ?? false,
+    idleTimeout: reader.optionalNumber(kiosk, 'idleTimeout', path, { positive: true }) ?? DEFAULT_KIOSK_IDLE_TIMEOUT,
+    attractDelay: reader.optionalNumber(kiosk, 'attractDelay', path, { positive: true }) ?? DEFAULT_KIOSK_ATTRACT_DELAY
+  };
+}
+
+// Translations must point at ids that exist, so a renamed exhibit does not silently lose its translation
+function parseTranslations(
+  reader: ManifestReader,
+  root: Json,
+  exhibitionId: string
+): Record<string, Record<string, TranslatedEntry>> {
+  if (root.translations === undefined) return {};
+  const translations = reader.record(root.translations, 'exhibition.translations');
+  if (!translations) return {};
+
+  return Object.fromEntries(
+    Object.entries(translations).map(([language, value]) => {
+      const languagePath = `exhibition.translations.${language}`;
+      const entries = reader.record(value, languagePath) ?? {};
+      return [
+        language,
+        Object.fromEntries(
+          Object.entries(entries).map(([id, entry]) => {
+            if (id !== exhibitionId && !reader.hasId(id)) {
+              reader.issues.push(`${languagePath}.${id}: there is nothing with id "${id}" to translate`);
+            }
+            return [id, parseTranslatedEntry(reader, entry, `${languagePath}.${id}`)];
+          })
+        )
+      ];
+    })
+  );
+}
+
+/**
+ * Validates raw manifest JSON and returns a typed exhibition.
+ * Throws an `ExhibitionManifestError` listing every problem found.
+ */
+export function parseExhibition(data: unknown): Exhibition {
+  const reader = new ManifestReader();
+  const root = reader.record(data, 'exhibition');
+
+  let exhibition: Exhibition | null = null;
+  if (root) {
+    const rooms = reader
+      .array(root, 'rooms', 'exhibition')
+      .map((room, index) => parseRoom(reader, room, `exhibition.rooms[${index}]`))
+      .filter((room): room is RoomDefinition => room !== null);
+
+    if (Array.isArray(root.rooms) && rooms.length === 0) {
+      reader.issues.push('exhibition.rooms: at least one room is required');
+    }
+
+    const roomIds = new Set(rooms.map(room => room.id));
+    const doorways = reader
+      .optionalArray(root, 'doorways', 'exhibition')
+      .map((doorway, index) => parseDoorway(reader, doorway, `exhibition.doorways[${index}]`, roomIds))
+      .filter((doorway): doorway is DoorwayDefinition => doorway !== null);
+
+    const tours = reader
+      .optionalArray(root, 'tours', 'exhibition')
+      .map((tour, index) => parseTour(reader, tour, `exhibition.tours[${index}]`))
+      .filter((tour): tour is TourDefinition => tour !== null);
+
+    const id = reader.string(root, 'id', 'exhibition');
+    exhibition = {
+      id,
+      title: reader.string(root, 'title', 'exhibition'),
+      language: reader.string(root, 'language', 'exhibition', DEFAULT_LANGUAGE),
+      rooms,
+      doorways,
+      tours,
+      lightingPreset: parseLightingPreset(reader, root),
+      kiosk: parseKiosk(reader, root),
+      translations: parseTranslations(reader, root, id)
+    };
+  }
+
+  if (reader.issues.length > 0 || !exhibition) {
+    throw new ExhibitionManifestError(reader.issues);
+  }
+  return exhibition;
+}
@@ -0,0 +1,22 @@
+import type { Exhibition, RoomDefinition } from './types';
+
+export function roomContains({ floor }: RoomDefinition, x: number, z: number) {
+  const [centerX, centerZ] = floor.center;
+  const [width, depth] = floor.size;
+  return Math.abs(x - centerX) <= width / 2 && Math.abs(z - centerZ) <= depth / 2;
+}
+
+/** The room whose floor the point stands on, if any. */
+export function findRoomAt(exhibition: Exhibition, x: number, z: number): RoomDefinition | undefined {
+  return exhibition.rooms.find(room => roomContains(room, x, z));
+}
+
+/** The room itself plus every room reachable through one doorway. */
+export function getNearbyRoomIds(exhibition: Exhibition, roomId: string): Set<string> {
+  const nearby = new Set([roomId]);
+  exhibition.doorways.forEach(({ rooms: [a, b] }) => {
+    if (a === roomId) nearby.add(b);
+    if (b === roomId) nearby.add(a);
+  });
+  return nearby;
+}
@@ -0,0 +1,303 @@
+export type Vec3 = [number, number, number];
+
+export interface FloorDefinition {
+  /** Centre of the floor on the ground plane, as [x, z]. */
+  center: [number, number];
+  /** Width along x and depth along z. The floor rectangle is also the room's extent. */
+  size: [number, number];
+  color: string;
+}
+
+export interface RoomLightDefinition {
+  position: Vec3;
+  color: string;
+  intensity: number;
+  distance: number;
+}
+
+/**
+ * A track spotlight aimed at an exhibit or at the artwork on a wall. Every
+ * field is optional; exhibits and walls with artwork are lit by default.
+ */
+export interface SpotlightDefinition {
+  /** Set to false to leave the piece without a spotlight, or true to light a plain wall. */
+  enabled?: boolean;
+  /** Multiplier on the lighting preset's spotlight intensity. */
+  intensity?: number;
+  /** Half-angle of the beam, in degrees. */
+  angle?: number;
+  castShadow?: boolean;
+  /** Shadow map resolution in pixels, a power of two. */
+  shadowMapSize?: number;
+  shadowBias?: number;
+}
+
+export interface WallDefinition {
+  id: string;
+  name: string;
+  position: Vec3;
+  size: Vec3;
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  color: string;
+  textureUrl?: string;
+  spotlight?: SpotlightDefinition;
+}
+
+export interface StandDefinition {
+  id: string;
+  name: string;
+  position: Vec3;
+  size: Vec3;
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  color: string;
+}
+
+/** A raised floor the visitor can walk on, such as a mezzanine or a landing. Its top is the walking surface. */
+export interface PlatformDefinition {
+  id: string;
+  name: string;
+  /** Centre of the slab. */
+  position: Vec3;
+  size: Vec3;
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  color: string;
+}
+
+/**
+ * A straight flight of stairs. `position` is the middle of the bottom step's
+ * front edge, at the height of the floor it starts from; with no rotation the
+ * flight climbs towards -z.
+ */
+export interface StairsDefinition {
+  id: string;
+  name: string;
+  position: Vec3;
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  width: number;
+  /** Horizontal length of the flight. */
+  length: number;
+  /** Height climbed from the bottom to the top of the flight. */
+  rise: number;
+  steps: number;
+  color: string;
+}
+
+/**
+ * A straight ramp with a balustrade on either side. `position` is the middle
+ * of its bottom edge, at the height of the floor it starts from; with no
+ * rotation it climbs towards -z.
+ */
+export interface RampDefinition {
+  id: string;
+  name: string;
+  position: Vec3;
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  width: number;
+  /** Horizontal length of the ramp. */
+  length: number;
+  /** Height climbed from the bottom to the top of the ramp. */
+  rise: number;
+  color: string;
+}
+
+export interface BoxModelDefinition {
+  type: 'box';
+  size: number;
+  textureUrl?: string;
+}
+
+export interface GltfModelDefinition {
+  type: 'gltf';
+  url: string;
+  size: number;
+}
+
+export type ExhibitModelDefinition = BoxModelDefinition | GltfModelDefinition;
+
+/** How an exhibit is framed when picked up, and how far it can be zoomed and turned. Every field is optional. */
+export interface InspectionDefinition {
+  /** Distance from the camera when the exhibit is picked up or the view is reset. */
+  distance?: number;
+  minDistance?: number;
+  maxDistance?: number;
+  /** Starting orientation as [pitch, yaw], in degrees. */
+  rotation?: [number, number];
+  /** Furthest the exhibit turns up or down from its starting orientation, in degrees. */
+  maxPitch?: number;
+  /** Furthest the exhibit turns left or right from its starting orientation, in degrees. */
+  maxYaw?: number;
+  /** Start in trackball mode, turning freely in every direction instead of within the limits. */
+  trackball?: boolean;
+}
+
+export interface ExhibitReference {
+  label: string;
+  url: string;
+}
+
+/** Catalogue details shown on the inspection label and the wall label beside the stand. */
+export interface ExhibitMetadata {
+  artist?: string;
+  /** Free text, so ranges and approximations like "c. 1950" are allowed. */
+  date?: string;
+  /** Where the work was made or comes from. */
+  origin?: string;
+  medium?: string;
+  dimensions?: string;
+  provenance?: string;
+  creditLine?: string;
+  tags: string[];
+  /** Links for further reading. */
+  references: ExhibitReference[];
+}
+
+/**
+ * A numbered point pinned to an exhibit's model, shown while it is inspected.
+ * Each hotspot opens a short note with at least one of text, an image or audio.
+ */
+export interface HotspotDefinition {
+  id: string;
+  title: string;
+  /** Where the hotspot sits, relative to the centre of the exhibit, in metres after the model is scaled. */
+  position: Vec3;
+  /** Direction the hotspot faces, relative to the exhibit; it hides when turned away from the camera. Defaults to pointing out from the centre. */
+  normal?: Vec3;
+  text?: string;
+  imageUrl?: string;
+  audioUrl?: string;
+}
+
+export interface ExhibitDefinition {
+  id: string;
+  title: string;
+  description: string;
+  metadata: ExhibitMetadata;
+  position: Vec3;
+  interactionDistance?: number;
+  model: ExhibitModelDefinition;
+  inspection?: InspectionDefinition;
+  hotspots: HotspotDefinition[];
+  /** Spoken commentary, played from the exhibit while it is inspected. */
+  narrationUrl?: string;
+  spotlight?: SpotlightDefinition;
+}
+
+export interface VideoScreenDefinition {
+  id: string;
+  title: string;
+  description?: string;
+  position: Vec3;
+  /** Width and height of the screen in metres. */
+  size: [number, number];
+  /** Rotation about the vertical axis, in degrees. */
+  rotationY: number;
+  videoUrl: string;
+  captionsUrl?: string;
+  /** Distance within which the video plays on its own. */
+  playRange: number;
+  interactionDistance?: number;
+}
+
+/** A sound looped in the background while the visitor is in the room. */
+export interface RoomAmbienceDefinition {
+  url: string;
+  /** 0 to 1, before the visitor's own volume. */
+  volume: number;
+}
+
+export interface RoomDefinition {
+  id: string;
+  name: string;
+  floor: FloorDefinition;
+  lights: RoomLightDefinition[];
+  walls: WallDefinition[];
+  stands: StandDefinition[];
+  platforms: PlatformDefinition[];
+  stairs: StairsDefinition[];
+  ramps: RampDefinition[];
+  exhibits: ExhibitDefinition[];
+  screens: VideoScreenDefinition[];
+  ambience?: RoomAmbienceDefinition;
+}
+
+/** An opening that connects two rooms. Rooms joined by a doorway are neighbours. */
+export interface DoorwayDefinition {
+  id: string;
+  rooms: [string, string];
+  position: Vec3;
+  width: number;
+}
+
+/** One stop of a guided tour: where the camera goes, what it looks at and what is narrated. */
+export interface TourStopDefinition {
+  title: string;
+  text: string;
+  position: Vec3;
+  lookAt: Vec3;
+  /** Seconds to stay at the stop; the tour also waits for the narration to finish. */
+  dwell: number;
+  audioUrl?: string;
+}
+
+export interface TourDefinition {
+  id: string;
+  title: string;
+  stops: TourStopDefinition[];
+}
+
+export interface TranslatedTourStop {
+  title?: string;
+  text?: string;
+  audioUrl?: string;
+}
+
+/**
+ * Text of one manifest entry in another language, looked up by the entry's id
+ * (or the exhibition's). Anything left out falls back to the next language.
+ */
+export interface TranslatedEntry {
+  name?: string;
+  title?: string;
+  description?: string;
+  text?: string;
+  audioUrl?: string;
+  narrationUrl?: string;
+  captionsUrl?: string;
+  metadata?: Partial<Omit<ExhibitMetadata, 'references'>>;
+  /** Tour stops in order; stops have no ids of their own. */
+  stops?: TranslatedTourStop[];
+}
+
+/**
+ * Running unattended on a gallery kiosk. The `kiosk` URL parameter turns it on
+ * or off regardless of `enabled`.
+ */
+export interface KioskDefinition {
+  enabled: boolean;
+  /** Seconds without input in the museum before it goes back to the landing screen. */
+  idleTimeout: number;
+  /** Seconds without input on the landing screen before the attract flythrough starts. */
+  attractDelay: number;
+}
+
+export type LightingPresetName = 'gallery' | 'evening' | 'highContrast';
+
+export interface Exhibition {
+  id: string;
+  title: string;
+  /** Language the manifest's own text is written in, e.g. "en". */
+  language: string;
+  rooms: RoomDefinition[];
+  doorways: DoorwayDefinition[];
+  tours: TourDefinition[];
+  /** The lighting the exhibition opens with. */
+  lightingPreset: LightingPresetName;
+  kiosk: KioskDefinition;
+  /** Translations by language code, then by entry id. */
+  translations: Record<string, Record<string, TranslatedEntry>>;
+}
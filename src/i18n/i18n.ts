@@ -0,0 +1,85 @@
+import { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from './locales';
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { ptBR, type MessageKey, type Messages } from './messages/ptBR';
+
+const STORAGE_KEY = 'ita-museum.locale';
+
+const DICTIONARIES: Record<Locale, Partial<Messages>> = {
+  'pt-BR': ptBR,
+  en,
+  es
+};
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// A saved choice wins, then the first browser language we offer (matching "es-AR" to "es"), then Portuguese
+function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be blocked; fall through to the browser languages
+  }
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const exact = LOCALES.find(({ code }) => code.toLowerCase() === language.toLowerCase());
+    if (exact) return exact.code;
+    const sameLanguage = LOCALES.find(({ code }) => code.split('-')[0] === language.split('-')[0].toLowerCase());
+    if (sameLanguage) return sameLanguage.code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+let locale = detectLocale();
+document.documentElement.lang = locale;
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Languages to try, in order, for a piece of text: the chosen one, then
+ * Portuguese, then English.
+ */
+export function getFallbackChain(preferred: Locale): Locale[] {
+  return Array.from(new Set<Locale>([preferred, DEFAULT_LOCALE, 'en']));
+}
+
+/**
+ * The visitor's language, shared by every component that shows text. The
+ * choice is saved in localStorage and survives reloads.
+ */
+export const i18n = {
+  getLocale(): Locale {
+    return locale;
+  },
+
+  setLocale(next: Locale) {
+    locale = next;
+    document.documentElement.lang = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+      console.warn('Could not save the language:', error);
+    }
+    listeners.forEach(listener => listener());
+  },
+
+  /** The string for `key` in the current language, with `{name}` placeholders filled from `params`. */
+  translate(key: MessageKey, params?: Record<string, string | number>) {
+    const chain = getFallbackChain(locale);
+    const template = chain.map(code => DICTIONARIES[code][key]).find(text => text !== undefined) ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
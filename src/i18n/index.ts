@@ -0,0 +1,4 @@
+export { getFallbackChain, i18n, type Translate } from './i18n';
+export { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from './locales';
+export type { MessageKey, Messages } from './messages/ptBR';
+export { useTranslation } from './useTranslation';
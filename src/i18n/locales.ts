@@ -0,0 +1,13 @@
+/** Languages the museum is offered in, each named in its own language for the picker. */
+export const LOCALES = [
+  { code: 'pt-BR', name: 'Português' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' }
+] as const;
+
+export type Locale = (typeof LOCALES)[number]['code'];
+
+/** The collection is Brazilian, so Portuguese is the first language and the first fallback. */
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(({ code }) => code === value);
@@ -0,0 +1,104 @@
+import type { Messages } from './ptBR';
+
+export const en: Partial<Messages> = {
+  'landing.enter': 'Enter Museum',
+  'landing.startTour': 'Start tour',
+  'landing.startNamedTour': 'Start tour: {title}',
+  'landing.language': 'Language',
+  'landing.loading': 'Loading the exhibition…',
+  'landing.assetsFailed': 'Some files could not be loaded; the museum opens without them:',
+  'landing.touchToBegin': 'Touch the screen to begin',
+
+  'manifestError.title': 'The exhibition could not be loaded',
+  'manifestError.fix': 'Fix the following problems in {file}:',
+
+  'instructions.title': 'Controls',
+  'instructions.autoClose': 'This window will close automatically in a few seconds',
+
+  'action.move': 'Move',
+  'action.look': 'Look',
+  'action.inspect': 'Inspect',
+  'action.teleport': 'Teleport',
+  'action.floorPlan': 'Floor plan',
+  'action.exitControl': 'Exit control',
+  'action.zoom': 'Zoom',
+  'action.walk': 'Walk',
+  'action.back': 'Back',
+
+  'input.mouse': 'Mouse',
+  'input.clickFloor': 'Click floor',
+  'input.joystick': 'Joystick',
+  'input.drag': 'Drag',
+  'input.tapFloor': 'Tap floor',
+  'input.tapExhibit': 'Tap exhibit',
+  'input.pinch': 'Pinch',
+
+  'hud.escHint': 'Press {key} for mouse cursor',
+  'hud.controls': 'Controls',
+  'hud.volume': 'Volume',
+  'hud.mute': 'Mute',
+  'hud.unmute': 'Unmute',
+  'hud.unreachable': 'There is no way to reach {title}',
+
+  'inputSettings.title': 'Controls',
+  'inputSettings.close': 'Close controls',
+  'inputSettings.help': 'Choose an action, then press the key you want to use for it.',
+  'inputSettings.listening': 'Press a key…',
+  'inputSettings.reset': 'Reset to defaults',
+
+  'visitorSettings.eyeHeight': 'Eye height',
+  'visitorSettings.standing': 'Standing',
+  'visitorSettings.seated': 'Seated / wheelchair',
+
+  'inputAction.moveForward': 'Move forward',
+  'inputAction.moveBackward': 'Move backward',
+  'inputAction.strafeLeft': 'Strafe left',
+  'inputAction.strafeRight': 'Strafe right',
+  'inputAction.inspect': 'Inspect',
+  'inputAction.exit': 'Exit inspection',
+  'inputAction.floorPlan': 'Floor plan',
+
+  'minimap.open': 'Open floor plan',
+  'minimap.openWithKey': 'Floor plan ({key})',
+  'minimap.title': 'Floor plan',
+  'minimap.close': 'Close floor plan',
+  'minimap.closeWithKey': 'Close ({key})',
+  'minimap.visited': '{visited} of {total} exhibits visited. Choose one to walk to it.',
+  'minimap.back': 'Back to the museum',
+
+  'tour.stopOf': 'Stop {current} of {total}',
+  'tour.previous': 'Previous stop',
+  'tour.resume': 'Resume tour',
+  'tour.pause': 'Pause tour',
+  'tour.next': 'Next stop',
+  'tour.paused': 'Paused — resume to carry on from here',
+  'tour.end': 'End tour',
+
+  'video.play': 'Play',
+  'video.pause': 'Pause',
+  'video.seek': 'Seek',
+  'video.showCaptions': 'Show captions',
+  'video.hideCaptions': 'Hide captions',
+  'video.close': 'Close',
+
+  'inspection.hintGamepad': 'Right stick to rotate the object, B to put it back',
+  'inspection.hintTouch': 'Drag to rotate the object, pinch to zoom, drag with two fingers to move it',
+  'inspection.hintDesktop':
+    'Drag or use the arrow keys to rotate the object, right-drag to move it, scroll or +/- to zoom, Esc to put it back',
+  'inspection.resetView': 'Reset view',
+  'inspection.freeRotation': 'Free rotation',
+  'inspection.freeRotationHint': 'Turn the object freely in every direction',
+  'inspection.exit': 'Exit Inspection',
+  'inspection.hotspotsHint': 'Choose a numbered point on the object to read about it',
+  'inspection.closeNote': 'Close note',
+  'inspection.playNarration': 'Play narration',
+  'inspection.pauseNarration': 'Pause narration',
+
+  'label.details': 'Details',
+  'label.medium': 'Medium',
+  'label.dimensions': 'Dimensions',
+  'label.provenance': 'Provenance',
+  'label.furtherReading': 'Further reading',
+
+  'model.unavailable': 'Model unavailable'
+};
@@ -0,0 +1,104 @@
+import type { Messages } from './ptBR';
+
+export const es: Partial<Messages> = {
+  'landing.enter': 'Entrar al museo',
+  'landing.startTour': 'Iniciar visita guiada',
+  'landing.startNamedTour': 'Iniciar visita guiada: {title}',
+  'landing.language': 'Idioma',
+  'landing.loading': 'Cargando la exposición…',
+  'landing.assetsFailed': 'Algunos archivos no se pudieron cargar; el museo se abre sin ellos:',
+  'landing.touchToBegin': 'Toca la pantalla para empezar',
+
+  'manifestError.title': 'No se pudo cargar la exposición',
+  'manifestError.fix': 'Corrige los siguientes problemas en {file}:',
+
+  'instructions.title': 'Controles',
+  'instructions.autoClose': 'Esta ventana se cerrará sola en unos segundos',
+
+  'action.move': 'Moverse',
+  'action.look': 'Mirar',
+  'action.inspect': 'Examinar',
+  'action.teleport': 'Teletransportarse',
+  'action.floorPlan': 'Plano',
+  'action.exitControl': 'Liberar el cursor',
+  'action.zoom': 'Zoom',
+  'action.walk': 'Caminar',
+  'action.back': 'Volver',
+
+  'input.mouse': 'Ratón',
+  'input.clickFloor': 'Clic en el suelo',
+  'input.joystick': 'Joystick',
+  'input.drag': 'Arrastrar',
+  'input.tapFloor': 'Toca el suelo',
+  'input.tapExhibit': 'Toca la obra',
+  'input.pinch': 'Pellizcar',
+
+  'hud.escHint': 'Pulsa {key} para ver el cursor',
+  'hud.controls': 'Controles',
+  'hud.volume': 'Volumen',
+  'hud.mute': 'Silenciar',
+  'hud.unmute': 'Activar sonido',
+  'hud.unreachable': 'No hay camino hasta {title}',
+
+  'inputSettings.title': 'Controles',
+  'inputSettings.close': 'Cerrar controles',
+  'inputSettings.help': 'Elige una acción y pulsa la tecla que quieras usar para ella.',
+  'inputSettings.listening': 'Pulsa una tecla…',
+  'inputSettings.reset': 'Restablecer valores',
+
+  'visitorSettings.eyeHeight': 'Altura de los ojos',
+  'visitorSettings.standing': 'De pie',
+  'visitorSettings.seated': 'Sentado / silla de ruedas',
+
+  'inputAction.moveForward': 'Avanzar',
+  'inputAction.moveBackward': 'Retroceder',
+  'inputAction.strafeLeft': 'Paso a la izquierda',
+  'inputAction.strafeRight': 'Paso a la derecha',
+  'inputAction.inspect': 'Examinar',
+  'inputAction.exit': 'Terminar el examen',
+  'inputAction.floorPlan': 'Plano',
+
+  'minimap.open': 'Abrir plano',
+  'minimap.openWithKey': 'Plano ({key})',
+  'minimap.title': 'Plano',
+  'minimap.close': 'Cerrar plano',
+  'minimap.closeWithKey': 'Cerrar ({key})',
+  'minimap.visited': '{visited} de {total} obras visitadas. Elige una para ir hasta ella.',
+  'minimap.back': 'Volver al museo',
+
+  'tour.stopOf': 'Parada {current} de {total}',
+  'tour.previous': 'Parada anterior',
+  'tour.resume': 'Reanudar visita',
+  'tour.pause': 'Pausar visita',
+  'tour.next': 'Parada siguiente',
+  'tour.paused': 'En pausa — reanuda para seguir desde aquí',
+  'tour.end': 'Terminar visita',
+
+  'video.play': 'Reproducir',
+  'video.pause': 'Pausar',
+  'video.seek': 'Posición del vídeo',
+  'video.showCaptions': 'Mostrar subtítulos',
+  'video.hideCaptions': 'Ocultar subtítulos',
+  'video.close': 'Cerrar',
+
+  'inspection.hintGamepad': 'Joystick derecho para girar el objeto, B para devolverlo',
+  'inspection.hintTouch': 'Arrastra para girar el objeto, pellizca para acercarlo, arrastra con dos dedos para moverlo',
+  'inspection.hintDesktop':
+    'Arrastra o usa las flechas para girar el objeto, arrastra con el botón derecho para moverlo, usa la rueda o +/- para acercarlo, Esc para devolverlo',
+  'inspection.resetView': 'Restablecer vista',
+  'inspection.freeRotation': 'Rotación libre',
+  'inspection.freeRotationHint': 'Girar el objeto libremente en cualquier dirección',
+  'inspection.exit': 'Terminar el examen',
+  'inspection.hotspotsHint': 'Elige un punto numerado del objeto para saber más',
+  'inspection.closeNote': 'Cerrar nota',
+  'inspection.playNarration': 'Escuchar narración',
+  'inspection.pauseNarration': 'Pausar narración',
+
+  'label.details': 'Detalles',
+  'label.medium': 'Técnica',
+  'label.dimensions': 'Dimensiones',
+  'label.provenance': 'Procedencia',
+  'label.furtherReading': 'Para saber más',
+
+  'model.unavailable': 'Modelo no disponible'
+};
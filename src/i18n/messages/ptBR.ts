@@ -0,0 +1,106 @@
+// The complete set of interface strings; other languages may leave some out and fall back to these
+export const ptBR = {
+  'landing.enter': 'Entrar no museu',
+  'landing.startTour': 'Iniciar visita guiada',
+  'landing.startNamedTour': 'Iniciar visita guiada: {title}',
+  'landing.language': 'Idioma',
+  'landing.loading': 'Carregando a exposição…',
+  'landing.assetsFailed': 'Alguns arquivos não puderam ser carregados; o museu abre sem eles:',
+  'landing.touchToBegin': 'Toque na tela para começar',
+
+  'manifestError.title': 'Não foi possível carregar a exposição',
+  'manifestError.fix': 'Corrija os seguintes problemas em {file}:',
+
+  'instructions.title': 'Controles',
+  'instructions.autoClose': 'Esta janela fecha sozinha em alguns segundos',
+
+  'action.move': 'Mover',
+  'action.look': 'Olhar',
+  'action.inspect': 'Examinar',
+  'action.teleport': 'Teletransportar',
+  'action.floorPlan': 'Planta',
+  'action.exitControl': 'Liberar o cursor',
+  'action.zoom': 'Zoom',
+  'action.walk': 'Andar',
+  'action.back': 'Voltar',
+
+  'input.mouse': 'Mouse',
+  'input.clickFloor': 'Clique no chão',
+  'input.joystick': 'Joystick',
+  'input.drag': 'Arrastar',
+  'input.tapFloor': 'Toque no chão',
+  'input.tapExhibit': 'Toque na obra',
+  'input.pinch': 'Pinça',
+
+  'hud.escHint': 'Pressione {key} para ver o cursor',
+  'hud.controls': 'Controles',
+  'hud.volume': 'Volume',
+  'hud.mute': 'Silenciar',
+  'hud.unmute': 'Ativar som',
+  'hud.unreachable': 'Não há caminho até {title}',
+
+  'inputSettings.title': 'Controles',
+  'inputSettings.close': 'Fechar controles',
+  'inputSettings.help': 'Escolha uma ação e pressione a tecla que deseja usar para ela.',
+  'inputSettings.listening': 'Pressione uma tecla…',
+  'inputSettings.reset': 'Restaurar padrões',
+
+  'visitorSettings.eyeHeight': 'Altura dos olhos',
+  'visitorSettings.standing': 'Em pé',
+  'visitorSettings.seated': 'Sentado / cadeira de rodas',
+
+  'inputAction.moveForward': 'Andar para a frente',
+  'inputAction.moveBackward': 'Andar para trás',
+  'inputAction.strafeLeft': 'Passo para a esquerda',
+  'inputAction.strafeRight': 'Passo para a direita',
+  'inputAction.inspect': 'Examinar',
+  'inputAction.exit': 'Encerrar exame',
+  'inputAction.floorPlan': 'Planta',
+
+  'minimap.open': 'Abrir planta',
+  'minimap.openWithKey': 'Planta ({key})',
+  'minimap.title': 'Planta',
+  'minimap.close': 'Fechar planta',
+  'minimap.closeWithKey': 'Fechar ({key})',
+  'minimap.visited': '{visited} de {total} obras visitadas. Escolha uma para ir até ela.',
+  'minimap.back': 'Voltar ao museu',
+
+  'tour.stopOf': 'Parada {current} de {total}',
+  'tour.previous': 'Parada anterior',
+  'tour.resume': 'Retomar visita',
+  'tour.pause': 'Pausar visita',
+  'tour.next': 'Próxima parada',
+  'tour.paused': 'Pausada — retome para continuar daqui',
+  'tour.end': 'Encerrar visita',
+
+  'video.play': 'Reproduzir',
+  'video.pause': 'Pausar',
+  'video.seek': 'Posição no vídeo',
+  'video.showCaptions': 'Mostrar legendas',
+  'video.hideCaptions': 'Ocultar legendas',
+  'video.close': 'Fechar',
+
+  'inspection.hintGamepad': 'Analógico direito para girar o objeto, B para devolvê-lo',
+  'inspection.hintTouch': 'Arraste para girar o objeto, faça pinça para aproximar, arraste com dois dedos para movê-lo',
+  'inspection.hintDesktop':
+    'Arraste ou use as setas para girar o objeto, arraste com o botão direito para movê-lo, role ou use +/- para aproximar, Esc para devolvê-lo',
+  'inspection.resetView': 'Redefinir vista',
+  'inspection.freeRotation': 'Rotação livre',
+  'inspection.freeRotationHint': 'Girar o objeto livremente em qualquer direção',
+  'inspection.exit': 'Encerrar exame',
+  'inspection.hotspotsHint': 'Escolha um ponto numerado no objeto para saber mais',
+  'inspection.closeNote': 'Fechar nota',
+  'inspection.playNarration': 'Ouvir narração',
+  'inspection.pauseNarration': 'Pausar narração',
+
+  'label.details': 'Detalhes',
+  'label.medium': 'Técnica',
+  'label.dimensions': 'Dimensões',
+  'label.provenance': 'Procedência',
+  'label.furtherReading': 'Para saber mais',
+
+  'model.unavailable': 'Modelo indisponível'
+};
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
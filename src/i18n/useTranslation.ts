@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { i18n } from './i18n';
+
+/** The current language and a translate function; re-renders when the visitor picks another language. */
+export function useTranslation() {
+  const locale = useSyncExternalStore(i18n.subscribe, i18n.getLocale);
+  return { locale, t: i18n.translate, setLocale: i18n.setLocale };
+}
@@ -0,0 +1,36 @@
+// Exhibits and screens currently under the aim pointer, keyed by id, with their distance
+const distances = new Map<string, number>();
+// The exhibit or screen being inspected, during which nothing else can be picked
+let engagedId: string | null = null;
+
+/**
+ * Shared between every exhibit and screen so one press of the interact key picks
+ * only the nearest thing being aimed at, and never a second one mid-inspection.
+ */
+export const aimTargets = {
+  set(id: string, distance: number) {
+    distances.set(id, distance);
+  },
+
+  remove(id: string) {
+    distances.delete(id);
+  },
+
+  isNearest(id: string) {
+    const own = distances.get(id);
+    if (own === undefined || engagedId !== null) return false;
+    for (const [otherId, distance] of distances) {
+      if (otherId !== id && distance < own) return false;
+    }
+    return true;
+  },
+
+  engage(id: string) {
+    engagedId = id;
+    distances.delete(id);
+  },
+
+  release(id: string) {
+    if (engagedId === id) engagedId = null;
+  }
+};
@@ -0,0 +1,38 @@
+/** Buttons of the standard gamepad mapping, named after the Xbox layout. */
+export const GAMEPAD_BUTTONS = {
+  a: 0,
+  b: 1
+} as const;
+
+export type GamepadButton = keyof typeof GAMEPAD_BUTTONS;
+
+// Sticks rarely rest at exactly zero
+const DEAD_ZONE = 0.15;
+
+/** The first connected gamepad, if any. Gamepads must be polled every frame. */
+export function getGamepad(): Gamepad | null {
+  const gamepads = navigator.getGamepads?.() ?? [];
+  return gamepads.find((gamepad): gamepad is Gamepad => !!gamepad?.connected) ?? null;
+}
+
+/**
+ * A stick's deflection in the range [-1, 1], with `y` positive when pushed up.
+ * Input inside the dead zone reads as zero and the rest is rescaled so walking
+ * speed still ramps up smoothly from a standstill.
+ */
+export function readStick(gamepad: Gamepad | null, stick: 'left' | 'right') {
+  if (!gamepad) return { x: 0, y: 0 };
+
+  const offset = stick === 'left' ? 0 : 2;
+  const x = gamepad.axes[offset] ?? 0;
+  const y = -(gamepad.axes[offset + 1] ?? 0);
+  const magnitude = Math.min(1, Math.hypot(x, y));
+  if (magnitude < DEAD_ZONE) return { x: 0, y: 0 };
+
+  const scale = (magnitude - DEAD_ZONE) / (1 - DEAD_ZONE) / magnitude;
+  return { x: x * scale, y: y * scale };
+}
+
+export function isButtonPressed(gamepad: Gamepad | null, button: GamepadButton) {
+  return !!gamepad?.buttons[GAMEPAD_BUTTONS[button]]?.pressed;
+}
@@ -0,0 +1,13 @@
+export { aimTargets } from './aimTargets';
+export { getGamepad, isButtonPressed, readStick, GAMEPAD_BUTTONS, type GamepadButton } from './gamepad';
+export {
+  inputBindings,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  type InputAction,
+  type InputBindings
+} from './inputBindings';
+export { useGamepadConnected } from './useGamepadConnected';
+export { useInputBindings } from './useInputBindings';
+export { useTouchDevice } from './useTouchDevice';
+export type { MoveInput } from './types';
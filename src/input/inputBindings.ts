@@ -0,0 +1,142 @@
+import type { MessageKey } from '../i18n';
+
+export type InputAction =
+  | 'moveForward'
+  | 'moveBackward'
+  | 'strafeLeft'
+  | 'strafeRight'
+  | 'inspect'
+  | 'exit'
+  | 'floorPlan';
+
+/** The key bound to each action, as a `KeyboardEvent.code`. */
+export type InputBindings = Record<InputAction, string>;
+
+export const INPUT_ACTIONS: { action: InputAction; label: MessageKey }[] = [
+  { action: 'moveForward', label: 'inputAction.moveForward' },
+  { action: 'moveBackward', label: 'inputAction.moveBackward' },
+  { action: 'strafeLeft', label: 'inputAction.strafeLeft' },
+  { action: 'strafeRight', label: 'inputAction.strafeRight' },
+  { action: 'inspect', label: 'inputAction.inspect' },
+  { action: 'exit', label: 'inputAction.exit' },
+  { action: 'floorPlan', label: 'inputAction.floorPlan' }
+];
+
+// Key codes name physical keys, so these sit under the same fingers on every
+// layout: W A S D on QWERTY is Z Q S D on AZERTY
+export const DEFAULT_BINDINGS: InputBindings = {
+  moveForward: 'KeyW',
+  moveBackward: 'KeyS',
+  strafeLeft: 'KeyA',
+  strafeRight: 'KeyD',
+  inspect: 'KeyE',
+  exit: 'KeyX',
+  floorPlan: 'KeyM'
+};
+
+const STORAGE_KEY = 'ita-museum.input-bindings';
+
+interface KeyboardLayoutMap {
+  get(code: string): string | undefined;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let layoutMap: KeyboardLayoutMap | null = null;
+
+function loadBindings(): InputBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const bindings = { ...DEFAULT_BINDINGS };
+    INPUT_ACTIONS.forEach(({ action }) => {
+      if (typeof stored?.[action] === 'string') bindings[action] = stored[action];
+    });
+    return bindings;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+}
+
+let bindings = loadBindings();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const save = (next: InputBindings) => {
+  bindings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Could not save key bindings:', error);
+  }
+  notify();
+};
+
+// Labels follow the visitor's keyboard layout where the browser can tell us it
+(navigator as Navigator & { keyboard?: { getLayoutMap(): Promise<KeyboardLayoutMap> } }).keyboard
+  ?.getLayoutMap()
+  .then(map => {
+    layoutMap = map;
+    // A new snapshot, so components showing key labels re-render
+    bindings = { ...bindings };
+    notify();
+  })
+  .catch(() => {});
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'Space',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  ShiftLeft: 'Shift',
+  ShiftRight: 'Shift',
+  ControlLeft: 'Ctrl',
+  ControlRight: 'Ctrl',
+  AltLeft: 'Alt',
+  AltRight: 'Alt'
+};
+
+/**
+ * The key bindings shared by the movement controls, the HUD and the settings
+ * panel. Bindings are saved in localStorage and survive reloads.
+ */
+export const inputBindings = {
+  get(): InputBindings {
+    return bindings;
+  },
+
+  /** Binds `code` to `action`; an action that already used the key takes over the old one. */
+  set(action: InputAction, code: string) {
+    const next = { ...bindings, [action]: code };
+    const clash = INPUT_ACTIONS.find(({ action: other }) => other !== action && bindings[other] === code);
+    if (clash) next[clash.action] = bindings[action];
+    save(next);
+  },
+
+  reset() {
+    save({ ...DEFAULT_BINDINGS });
+  },
+
+  matches(action: InputAction, code: string) {
+    return bindings[action] === code;
+  },
+
+  /** A short, layout-aware label for a key code, e.g. "Z" for `KeyW` on AZERTY. */
+  getLabel(code: string) {
+    const mapped = layoutMap?.get(code);
+    if (mapped) return mapped.toUpperCase();
+    if (KEY_LABELS[code]) return KEY_LABELS[code];
+    return code.replace(/^(Key|Digit|Numpad)/, '');
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
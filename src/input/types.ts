@@ -0,0 +1,8 @@
+/**
+ * Analog walking input in the range [-1, 1]: `x` strafes right, `y` walks
+ * forward. Written by on-screen controls, read by `Controls` every frame.
+ */
+export interface MoveInput {
+  x: number;
+  y: number;
+}
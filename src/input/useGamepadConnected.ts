@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { getGamepad } from './gamepad';
+
+/** Whether a gamepad is plugged in, so button prompts can be shown for it. */
+export function useGamepadConnected() {
+  const [isConnected, setIsConnected] = useState(() => getGamepad() !== null);
+
+  useEffect(() => {
+    const update = () => setIsConnected(getGamepad() !== null);
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  return isConnected;
+}
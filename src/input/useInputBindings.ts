@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { inputBindings } from './inputBindings';
+
+/** The current key bindings; re-renders when they change or the keyboard layout becomes known. */
+export function useInputBindings() {
+  return useSyncExternalStore(inputBindings.subscribe, inputBindings.get);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+const isTouchDevice = () =>
+  typeof window !== 'undefined' && window.matchMedia('(hover: none) and (pointer: coarse)').matches;
+
+/**
+ * Whether the visitor is on a phone or tablet. Devices that report a mouse-like
+ * pointer switch over as soon as the screen is touched.
+ */
+export function useTouchDevice() {
+  const [isTouch, setIsTouch] = useState(isTouchDevice);
+
+  useEffect(() => {
+    if (isTouch) return;
+    const handleTouchStart = () => setIsTouch(true);
+    window.addEventListener('touchstart', handleTouchStart, { once: true });
+    return () => window.removeEventListener('touchstart', handleTouchStart);
+  }, [isTouch]);
+
+  return isTouch;
+}
@@ -0,0 +1,30 @@
+import { getGamepad, readStick } from '../input';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+// Gamepads send no events while in use, so they are polled this often
+const GAMEPAD_POLL_INTERVAL = 250;
+
+function isGamepadActive() {
+  const gamepad = getGamepad();
+  if (!gamepad) return false;
+  const left = readStick(gamepad, 'left');
+  const right = readStick(gamepad, 'right');
+  return left.x !== 0 || left.y !== 0 || right.x !== 0 || right.y !== 0 || gamepad.buttons.some(button => button.pressed);
+}
+
+/** Calls `onActivity` whenever the visitor uses the mouse, a touch screen, the keyboard or a gamepad. Returns a function that stops watching. */
+export function watchActivity(onActivity: () => void) {
+  for (const type of ACTIVITY_EVENTS) {
+    window.addEventListener(type, onActivity, { capture: true, passive: true });
+  }
+  const timer = setInterval(() => {
+    if (isGamepadActive()) onActivity();
+  }, GAMEPAD_POLL_INTERVAL);
+
+  return () => {
+    for (const type of ACTIVITY_EVENTS) {
+      window.removeEventListener(type, onActivity, { capture: true });
+    }
+    clearInterval(timer);
+  };
+}
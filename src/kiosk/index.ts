@@ -0,0 +1,5 @@
+export { getKioskSettings } from './kioskSettings';
+export { watchActivity } from './activity';
+export { useAttractLoop } from './useAttractLoop';
+export { useIdleTimer } from './useIdleTimer';
+export { useKioskLockdown } from './useKioskLockdown';
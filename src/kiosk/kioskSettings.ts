@@ -0,0 +1,14 @@
+import type { KioskDefinition } from '../exhibition';
+
+const URL_PARAMETER = 'kiosk';
+const OFF_VALUES = ['0', 'false', 'off'];
+
+/**
+ * The manifest's kiosk settings, switched on by `?kiosk` in the page URL or off
+ * by `?kiosk=off`, so one build can serve both the kiosks and the website.
+ */
+export function getKioskSettings(definition: KioskDefinition, search = window.location.search): KioskDefinition {
+  const value = new URLSearchParams(search).get(URL_PARAMETER);
+  if (value === null) return definition;
+  return { ...definition, enabled: !OFF_VALUES.includes(value.toLowerCase()) };
+}
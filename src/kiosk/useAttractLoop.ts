@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react';
+import type { Exhibition } from '../exhibition';
+import {
+  getExhibitMarkers,
+  getViewingTarget,
+  type NavGrid,
+  type NavigationTarget,
+  type VisitorPose
+} from '../navigation';
+
+// How long the camera lingers in front of each exhibit
+const ATTRACT_DWELL = 6000;
+
+interface AttractLoopOptions {
+  isActive: boolean;
+  exhibition: Exhibition | null;
+  navGrid: NavGrid | null;
+  visitorPose: MutableRefObject<VisitorPose>;
+  /** Move the camera; the caller reports back with `arrive()`. */
+  onTravel: (target: NavigationTarget) => void;
+  /** Stop moving the camera because the loop ended. */
+  onHalt: () => void;
+}
+
+/**
+ * The kiosk's attract mode: while active, walks the camera from exhibit to
+ * exhibit along the floor plan's routes, pausing in front of each, and starts
+ * over after the last. Exhibits with no reachable viewing spot are skipped.
+ */
+export function useAttractLoop({ isActive, exhibition, navGrid, visitorPose, onTravel, onHalt }: AttractLoopOptions) {
+  const markers = useMemo(() => (exhibition ? getExhibitMarkers(exhibition) : []), [exhibition]);
+  const [markerIndex, setMarkerIndex] = useState(0);
+  const [isDwelling, setIsDwelling] = useState(false);
+  const callbacks = useRef({ onTravel, onHalt });
+
+  useEffect(() => {
+    callbacks.current = { onTravel, onHalt };
+  }, [onTravel, onHalt]);
+
+  useEffect(() => {
+    if (!isActive || isDwelling || !navGrid) return;
+
+    for (let offset = 0; offset < markers.length; offset++) {
+      const index = (markerIndex + offset) % markers.length;
+      const target = getViewingTarget(navGrid, markers[index], visitorPose.current);
+      if (!target) continue;
+      if (index === markerIndex) {
+        callbacks.current.onTravel(target);
+      } else {
+        setMarkerIndex(index);
+      }
+      return;
+    }
+  }, [isActive, isDwelling, markerIndex, markers, navGrid, visitorPose]);
+
+  useEffect(() => {
+    if (!isDwelling) return;
+    const timer = setTimeout(() => {
+      setIsDwelling(false);
+      setMarkerIndex(index => (index + 1) % markers.length);
+    }, ATTRACT_DWELL);
+    return () => clearTimeout(timer);
+  }, [isDwelling, markers]);
+
+  // Each attract loop starts again from the first exhibit
+  useEffect(() => {
+    if (isActive) return;
+    setMarkerIndex(0);
+    setIsDwelling(false);
+    callbacks.current.onHalt();
+  }, [isActive]);
+
+  /** Reports that the camera reached the exhibit it was travelling to. */
+  const arrive = useCallback(() => {
+    if (isActive) setIsDwelling(true);
+  }, [isActive]);
+
+  return { arrive };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { watchActivity } from './activity';
+
+/**
+ * Calls `onIdle` once nobody has used any input for `timeout` seconds. Passing
+ * null stops the timer; it starts counting again from when it is turned back on.
+ */
+export function useIdleTimer(timeout: number | null, onIdle: () => void) {
+  const callback = useRef(onIdle);
+
+  useEffect(() => {
+    callback.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    if (timeout === null) return;
+
+    let timer = 0;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = window.setTimeout(() => callback.current(), timeout * 1000);
+    };
+    restart();
+    const stopWatching = watchActivity(restart);
+
+    return () => {
+      clearTimeout(timer);
+      stopWatching();
+    };
+  }, [timeout]);
+}
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+
+// Long presses and right clicks would open browser menus, and dragging would pick up the page's images
+const BLOCKED_EVENTS = ['contextmenu', 'dragstart', 'selectstart'] as const;
+
+/** Keeps visitors on a kiosk inside the museum by blocking the browser's own menus. */
+export function useKioskLockdown(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const block = (event: Event) => event.preventDefault();
+    for (const type of BLOCKED_EVENTS) {
+      window.addEventListener(type, block);
+    }
+    return () => {
+      for (const type of BLOCKED_EVENTS) {
+        window.removeEventListener(type, block);
+      }
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,3 @@
+export { LIGHTING_PRESETS, LIGHTING_PRESET_LABELS, type LightingPreset } from './presets';
+export { detectLightingQuality, type LightingQuality } from './quality';
+export { getSpotlights, type SpotlightPlacement } from './spotlights';
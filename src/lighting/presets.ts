@@ -0,0 +1,41 @@
+import type { LightingPresetName } from '../exhibition';
+
+export interface LightingPreset {
+  ambient: { color: string; intensity: number };
+  /** The directional light standing in for daylight through the ceiling. */
+  sun: { color: string; intensity: number };
+  /** Multiplier on the point lights each room declares in the manifest. */
+  roomLights: number;
+  /** Track spotlights; each piece can scale the intensity with its own `spotlight.intensity`. */
+  spotlight: { color: string; intensity: number; penumbra: number };
+}
+
+export const LIGHTING_PRESETS: Record<LightingPresetName, LightingPreset> = {
+  // Even daylight with warm spots picking out each piece
+  gallery: {
+    ambient: { color: '#ffffff', intensity: 0.8 },
+    sun: { color: '#ffffff', intensity: 1.5 },
+    roomLights: 1,
+    spotlight: { color: '#fff4e0', intensity: 25, penumbra: 0.4 }
+  },
+  // Low, warm light where the spots carry the room
+  evening: {
+    ambient: { color: '#ffd9b0', intensity: 0.25 },
+    sun: { color: '#ffb070', intensity: 0.3 },
+    roomLights: 0.6,
+    spotlight: { color: '#ffd2a0', intensity: 30, penumbra: 0.5 }
+  },
+  // Dark room and hard-edged spots, for visitors who need the pieces to stand out
+  highContrast: {
+    ambient: { color: '#ffffff', intensity: 0.1 },
+    sun: { color: '#ffffff', intensity: 0.4 },
+    roomLights: 0.3,
+    spotlight: { color: '#ffffff', intensity: 45, penumbra: 0.15 }
+  }
+};
+
+export const LIGHTING_PRESET_LABELS: Record<LightingPresetName, string> = {
+  gallery: 'Gallery',
+  evening: 'Evening',
+  highContrast: 'High contrast'
+};
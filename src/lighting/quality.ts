@@ -0,0 +1,15 @@
+/**
+ * `high` renders real-time shadow maps for the sun and every spotlight; `low`
+ * renders none and bakes soft contact shadows under each room once instead.
+ */
+export type LightingQuality = 'high' | 'low';
+
+/** A best guess from the device: phones, tablets and machines with few cores or little memory get `low`. */
+export function detectLightingQuality(): LightingQuality {
+  const { deviceMemory, hardwareConcurrency } = navigator as Navigator & { deviceMemory?: number };
+  const isHandheld = window.matchMedia?.('(pointer: coarse)').matches ?? false;
+  if (isHandheld || (deviceMemory !== undefined && deviceMemory < 4) || hardwareConcurrency < 4) {
+    return 'low';
+  }
+  return 'high';
+}
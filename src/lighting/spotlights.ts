@@ -0,0 +1,88 @@
+import type { RoomDefinition, SpotlightDefinition, Vec3 } from '../exhibition';
+
+/** A track spotlight resolved from the manifest: where it hangs, what it aims at and how it casts shadows. */
+export interface SpotlightPlacement {
+  /** The id of the exhibit or wall it lights. */
+  id: string;
+  position: Vec3;
+  target: Vec3;
+  /** Multiplier on the preset's spotlight intensity. */
+  intensity: number;
+  /** Half-angle of the beam, in radians. */
+  angle: number;
+  castShadow: boolean;
+  shadowMapSize: number;
+  shadowBias: number;
+}
+
+// Used for rooms without walls to hang the track from
+const DEFAULT_CEILING_HEIGHT = 4;
+// How far below the top of the walls the track runs
+const TRACK_DROP = 0.3;
+// Horizontal distance from the piece to the light: exhibits are lit from the room side, walls from in front
+const EXHIBIT_THROW = 1.5;
+const WALL_THROW = 2.5;
+const DEFAULT_EXHIBIT_ANGLE = 20;
+const MIN_WALL_ANGLE = 10;
+const MAX_WALL_ANGLE = 60;
+const DEFAULT_SHADOW_MAP_SIZE = 1024;
+const DEFAULT_SHADOW_BIAS = -0.0005;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function resolve(id: string, position: Vec3, target: Vec3, angle: number, spotlight?: SpotlightDefinition): SpotlightPlacement {
+  return {
+    id,
+    position,
+    target,
+    intensity: spotlight?.intensity ?? 1,
+    angle: toRadians(spotlight?.angle ?? angle),
+    castShadow: spotlight?.castShadow ?? true,
+    shadowMapSize: spotlight?.shadowMapSize ?? DEFAULT_SHADOW_MAP_SIZE,
+    shadowBias: spotlight?.shadowBias ?? DEFAULT_SHADOW_BIAS
+  };
+}
+
+/**
+ * Spotlights for a room: one over every exhibit, hung on the side facing the
+ * middle of the room, and one in front of every wall with artwork on it.
+ */
+export function getSpotlights(room: RoomDefinition): SpotlightPlacement[] {
+  const wallTops = room.walls.map(wall => wall.position[1] + wall.size[1] / 2);
+  const trackHeight = (wallTops.length > 0 ? Math.max(...wallTops) : DEFAULT_CEILING_HEIGHT) - TRACK_DROP;
+  const [centerX, centerZ] = room.floor.center;
+
+  const exhibitLights = room.exhibits
+    .filter(exhibit => exhibit.spotlight?.enabled !== false)
+    .map(exhibit => {
+      const [x, y, z] = exhibit.position;
+      // An exhibit in the very middle of the room is lit from the front
+      const distance = Math.hypot(centerX - x, centerZ - z);
+      const [dx, dz] = distance > 0.01 ? [(centerX - x) / distance, (centerZ - z) / distance] : [0, 1];
+      const position: Vec3 = [x + dx * EXHIBIT_THROW, trackHeight, z + dz * EXHIBIT_THROW];
+      return resolve(exhibit.id, position, [x, y, z], DEFAULT_EXHIBIT_ANGLE, exhibit.spotlight);
+    });
+
+  const wallLights = room.walls
+    .filter(wall => wall.spotlight?.enabled ?? !!wall.textureUrl)
+    .map(wall => {
+      // Artwork hangs on the wall's local +z face
+      const rotation = toRadians(wall.rotationY);
+      const normal = [Math.sin(rotation), Math.cos(rotation)];
+      const faceOffset = wall.size[2] / 2;
+      const target: Vec3 = [
+        wall.position[0] + normal[0] * faceOffset,
+        wall.position[1],
+        wall.position[2] + normal[1] * faceOffset
+      ];
+      const position: Vec3 = [target[0] + normal[0] * WALL_THROW, trackHeight, target[2] + normal[1] * WALL_THROW];
+
+      // Wide enough to wash the whole face of the wall
+      const reach = Math.hypot(WALL_THROW, trackHeight - target[1]);
+      const coverage = (Math.atan(Math.max(wall.size[0], wall.size[1]) / 2 / reach) * 180) / Math.PI;
+      const angle = Math.min(MAX_WALL_ANGLE, Math.max(MIN_WALL_ANGLE, coverage));
+      return resolve(wall.id, position, target, angle, wall.spotlight);
+    });
+
+  return [...exhibitLights, ...wallLights];
+}
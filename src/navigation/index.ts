@@ -0,0 +1,12 @@
+export { getExhibitMarkers } from './markers';
+export { createNavGrid, findNearestWalkable, hasClearPath, hasLineOfSight, isWalkable } from './navGrid';
+export { findPath } from './pathfinding';
+export { getRouteTarget, getTeleportTarget, getViewingTarget } from './targets';
+export type {
+  ExhibitMarker,
+  FloorPoint,
+  NavGrid,
+  NavigationEndReason,
+  NavigationTarget,
+  VisitorPose
+} from './types';
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import type { Exhibition } from '../exhibition';
+import type { ExhibitMarker, FloorPoint } from './types';
+
+// Matches the default reach of InteractiveObject3D and VideoScreen
+const DEFAULT_INTERACTION_DISTANCE = 3;
+const VIEWING_DISTANCE_RATIO = 0.7;
+
+export function getExhibitMarkers(exhibition: Exhibition): ExhibitMarker[] {
+  return exhibition.rooms.flatMap(room => [
+    ...room.exhibits.map(exhibit => ({
+      id: exhibit.id,
+      title: exhibit.title,
+      kind: 'exhibit' as const,
+      position: exhibit.position,
+      viewingDistance: (exhibit.interactionDistance ?? DEFAULT_INTERACTION_DISTANCE) * VIEWING_DISTANCE_RATIO
+    })),
+    ...room.screens.map(screen => ({
+      id: screen.id,
+      title: screen.title,
+      kind: 'screen' as const,
+      position: screen.position,
+      viewingDistance: (screen.interactionDistance ?? DEFAULT_INTERACTION_DISTANCE) * VIEWING_DISTANCE_RATIO,
+      // Screens show their picture along local +z
+      facing: [
+        Math.sin(THREE.MathUtils.degToRad(screen.rotationY)),
+        Math.cos(THREE.MathUtils.degToRad(screen.rotationY))
+      ] as FloorPoint
+    }))
+  ]);
+}
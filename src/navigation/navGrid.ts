@@ -0,0 +1,190 @@
+import * as THREE from 'three';
+import type { Exhibition, RampDefinition, StairsDefinition, Vec3 } from '../exhibition';
+import type { FloorPoint, NavGrid } from './types';
+
+const CELL_SIZE = 0.25;
+
+// Kept a little above Controls' default visitor radius so planned routes
+// never brush against the colliders they avoid
+export const NAV_CLEARANCE = 0.6;
+
+// Routes are planned on the ground floor: anything whose underside is higher
+// than this, such as a mezzanine and the railings along it, is walked under
+const HEADROOM = 2;
+
+interface Obstacle {
+  x: number;
+  z: number;
+  halfWidth: number;
+  halfDepth: number;
+  cos: number;
+  sin: number;
+}
+
+function footprint(position: [number, number, number], width: number, depth: number, rotationY = 0): Obstacle {
+  const angle = THREE.MathUtils.degToRad(rotationY);
+  return {
+    x: position[0],
+    z: position[2],
+    halfWidth: width / 2,
+    halfDepth: depth / 2,
+    cos: Math.cos(angle),
+    sin: Math.sin(angle)
+  };
+}
+
+const isOnGroundFloor = (position: Vec3, height: number) => position[1] - height / 2 < HEADROOM;
+
+// A flight of stairs or a ramp starts at `position` and climbs towards its local -z
+function flightFootprint({ position, width, length, rotationY }: StairsDefinition | RampDefinition): Obstacle {
+  const angle = THREE.MathUtils.degToRad(rotationY);
+  const center: Vec3 = [
+    position[0] - (Math.sin(angle) * length) / 2,
+    position[1],
+    position[2] - (Math.cos(angle) * length) / 2
+  ];
+  return footprint(center, width, length, rotationY);
+}
+
+/**
+ * Footprints of everything the visitor collides with on the ground floor.
+ * Stairs and ramps are walked around rather than up. They are read from the
+ * manifest rather than the collision registry so rooms that are not mounted yet
+ * can still be planned through.
+ */
+function getObstacles(exhibition: Exhibition): Obstacle[] {
+  return exhibition.rooms.flatMap(room => [
+    ...[...room.walls, ...room.stands, ...room.platforms]
+      .filter(({ position, size }) => isOnGroundFloor(position, size[1]))
+      .map(({ position, size, rotationY }) => footprint(position, size[0], size[2], rotationY)),
+    ...room.exhibits
+      .filter(({ position, model }) => isOnGroundFloor(position, model.size))
+      .map(({ position, model }) => footprint(position, model.size, model.size)),
+    ...[...room.stairs, ...room.ramps].map(flightFootprint)
+  ]);
+}
+
+function distanceTo(obstacle: Obstacle, x: number, z: number) {
+  const dx = x - obstacle.x;
+  const dz = z - obstacle.z;
+  // Into the obstacle's own frame; three.js rotates +x towards -z for positive angles
+  const localX = dx * obstacle.cos - dz * obstacle.sin;
+  const localZ = dx * obstacle.sin + dz * obstacle.cos;
+  const outsideX = Math.max(Math.abs(localX) - obstacle.halfWidth, 0);
+  const outsideZ = Math.max(Math.abs(localZ) - obstacle.halfDepth, 0);
+  return Math.hypot(outsideX, outsideZ);
+}
+
+export function createNavGrid(exhibition: Exhibition): NavGrid {
+  const floors = exhibition.rooms.map(({ floor }) => ({
+    minX: floor.center[0] - floor.size[0] / 2,
+    maxX: floor.center[0] + floor.size[0] / 2,
+    minZ: floor.center[1] - floor.size[1] / 2,
+    maxZ: floor.center[1] + floor.size[1] / 2
+  }));
+  const originX = Math.min(...floors.map(floor => floor.minX));
+  const originZ = Math.min(...floors.map(floor => floor.minZ));
+  const columns = Math.ceil((Math.max(...floors.map(floor => floor.maxX)) - originX) / CELL_SIZE);
+  const rows = Math.ceil((Math.max(...floors.map(floor => floor.maxZ)) - originZ) / CELL_SIZE);
+
+  const isOnFloor = (x: number, z: number) =>
+    floors.some(floor => x >= floor.minX && x <= floor.maxX && z >= floor.minZ && z <= floor.maxZ);
+  // Adjoining floors form one surface, so the clearance is kept from the edge of
+  // their union rather than from each floor's own edges
+  const isAwayFromFloorEdge = (x: number, z: number) =>
+    isOnFloor(x - NAV_CLEARANCE, z) && isOnFloor(x + NAV_CLEARANCE, z) &&
+    isOnFloor(x, z - NAV_CLEARANCE) && isOnFloor(x, z + NAV_CLEARANCE);
+
+  const obstacles = getObstacles(exhibition);
+  const walls = exhibition.rooms.flatMap(room =>
+    room.walls
+      .filter(({ position, size }) => isOnGroundFloor(position, size[1]))
+      .map(({ position, size, rotationY }) => footprint(position, size[0], size[2], rotationY))
+  );
+  const walkable = new Uint8Array(columns * rows);
+  const opaque = new Uint8Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const z = originZ + (row + 0.5) * CELL_SIZE;
+    for (let column = 0; column < columns; column++) {
+      const x = originX + (column + 0.5) * CELL_SIZE;
+      if (isAwayFromFloorEdge(x, z) && obstacles.every(obstacle => distanceTo(obstacle, x, z) >= NAV_CLEARANCE)) {
+        walkable[row * columns + column] = 1;
+      }
+      // Widened by half a cell so walls thinner than a cell still fill one
+      if (walls.some(wall => distanceTo(wall, x, z) < CELL_SIZE / 2)) {
+        opaque[row * columns + column] = 1;
+      }
+    }
+  }
+
+  return { originX, originZ, cellSize: CELL_SIZE, columns, rows, walkable, opaque };
+}
+
+function cellAt(grid: NavGrid, x: number, z: number) {
+  const column = Math.floor((x - grid.originX) / grid.cellSize);
+  const row = Math.floor((z - grid.originZ) / grid.cellSize);
+  if (column < 0 || row < 0 || column >= grid.columns || row >= grid.rows) return -1;
+  return row * grid.columns + column;
+}
+
+export function isWalkable(grid: NavGrid, x: number, z: number) {
+  const cell = cellAt(grid, x, z);
+  return cell !== -1 && grid.walkable[cell] === 1;
+}
+
+function everySample(grid: NavGrid, [fromX, fromZ]: FloorPoint, [toX, toZ]: FloorPoint, test: (x: number, z: number) => boolean) {
+  const length = Math.hypot(toX - fromX, toZ - fromZ);
+  const steps = Math.max(1, Math.ceil(length / (grid.cellSize / 2)));
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    if (!test(fromX + (toX - fromX) * t, fromZ + (toZ - fromZ) * t)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Whether a visitor can walk the straight line between two points. */
+export function hasClearPath(grid: NavGrid, from: FloorPoint, to: FloorPoint) {
+  return everySample(grid, from, to, (x, z) => isWalkable(grid, x, z));
+}
+
+/** Whether no wall stands between two points; stands and exhibits do not block the view. */
+export function hasLineOfSight(grid: NavGrid, from: FloorPoint, to: FloorPoint) {
+  return everySample(grid, from, to, (x, z) => {
+    const cell = cellAt(grid, x, z);
+    return cell === -1 || grid.opaque[cell] === 0;
+  });
+}
+
+/**
+ * The point itself when it is walkable, otherwise the centre of the closest
+ * walkable cell within `maxDistance`.
+ */
+export function findNearestWalkable(grid: NavGrid, x: number, z: number, maxDistance = 2): FloorPoint | null {
+  if (isWalkable(grid, x, z)) return [x, z];
+
+  const centerColumn = Math.floor((x - grid.originX) / grid.cellSize);
+  const centerRow = Math.floor((z - grid.originZ) / grid.cellSize);
+  const radius = Math.ceil(maxDistance / grid.cellSize);
+  let nearest: FloorPoint | null = null;
+  let nearestDistance = maxDistance;
+
+  for (let row = centerRow - radius; row <= centerRow + radius; row++) {
+    for (let column = centerColumn - radius; column <= centerColumn + radius; column++) {
+      if (column < 0 || row < 0 || column >= grid.columns || row >= grid.rows) continue;
+      if (!grid.walkable[row * grid.columns + column]) continue;
+
+      const cellX = grid.originX + (column + 0.5) * grid.cellSize;
+      const cellZ = grid.originZ + (row + 0.5) * grid.cellSize;
+      const distance = Math.hypot(cellX - x, cellZ - z);
+      if (distance < nearestDistance) {
+        nearest = [cellX, cellZ];
+        nearestDistance = distance;
+      }
+    }
+  }
+
+  return nearest;
+}
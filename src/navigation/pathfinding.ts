@@ -0,0 +1,166 @@
+import { findNearestWalkable, hasClearPath, isWalkable } from './navGrid';
+import type { FloorPoint, NavGrid } from './types';
+
+const NEIGHBOURS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+/** Binary min-heap of cell indices keyed by their A* score. */
+class OpenSet {
+  private cells: number[] = [];
+  private scores: number[] = [];
+
+  get size() {
+    return this.cells.length;
+  }
+
+  push(cell: number, score: number) {
+    this.cells.push(cell);
+    this.scores.push(score);
+    let index = this.cells.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.scores[parent] <= this.scores[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop() {
+    const cell = this.cells[0];
+    const lastCell = this.cells.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.cells.length > 0) {
+      this.cells[0] = lastCell;
+      this.scores[0] = lastScore;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.cells.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.cells.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return cell;
+  }
+
+  private swap(a: number, b: number) {
+    [this.cells[a], this.cells[b]] = [this.cells[b], this.cells[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+function toCell(grid: NavGrid, [x, z]: FloorPoint) {
+  const column = Math.min(grid.columns - 1, Math.max(0, Math.floor((x - grid.originX) / grid.cellSize)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor((z - grid.originZ) / grid.cellSize)));
+  return row * grid.columns + column;
+}
+
+function toPoint(grid: NavGrid, cell: number): FloorPoint {
+  const column = cell % grid.columns;
+  const row = Math.floor(cell / grid.columns);
+  return [grid.originX + (column + 0.5) * grid.cellSize, grid.originZ + (row + 0.5) * grid.cellSize];
+}
+
+// Drop every waypoint that can be skipped by walking straight to a later one
+function smoothPath(grid: NavGrid, from: FloorPoint, points: FloorPoint[]) {
+  const waypoints: FloorPoint[] = [];
+  let anchor = from;
+  let index = 0;
+  while (index < points.length) {
+    let furthest = index;
+    for (let candidate = points.length - 1; candidate > index; candidate--) {
+      if (hasClearPath(grid, anchor, points[candidate])) {
+        furthest = candidate;
+        break;
+      }
+    }
+    anchor = points[furthest];
+    waypoints.push(anchor);
+    index = furthest + 1;
+  }
+  return waypoints;
+}
+
+/**
+ * A walkable route between two floor points, as the waypoints to walk through
+ * after `from`. Points inside an obstacle's clearance are moved to the nearest
+ * walkable spot first. Returns null when `to` cannot be reached.
+ */
+export function findPath(grid: NavGrid, from: FloorPoint, to: FloorPoint): FloorPoint[] | null {
+  const start = findNearestWalkable(grid, ...from);
+  const goal = findNearestWalkable(grid, ...to);
+  if (!start || !goal) return null;
+
+  // A visitor pressed against a wall first steps back into the open
+  const leadIn = isWalkable(grid, ...from) ? [] : [start];
+
+  if (hasClearPath(grid, start, goal)) {
+    return [...leadIn, goal];
+  }
+
+  const startCell = toCell(grid, start);
+  const goalCell = toCell(grid, goal);
+  const goalColumn = goalCell % grid.columns;
+  const goalRow = Math.floor(goalCell / grid.columns);
+
+  // Octile distance: the exact cost of the shortest unobstructed 8-way route
+  const heuristic = (cell: number) => {
+    const dx = Math.abs((cell % grid.columns) - goalColumn);
+    const dz = Math.abs(Math.floor(cell / grid.columns) - goalRow);
+    return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+  };
+
+  const costs = new Float32Array(grid.walkable.length).fill(Infinity);
+  const cameFrom = new Int32Array(grid.walkable.length).fill(-1);
+  const closed = new Uint8Array(grid.walkable.length);
+  const open = new OpenSet();
+
+  costs[startCell] = 0;
+  open.push(startCell, heuristic(startCell));
+
+  while (open.size > 0) {
+    const cell = open.pop();
+    if (cell === goalCell) break;
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+
+    const column = cell % grid.columns;
+    const row = Math.floor(cell / grid.columns);
+
+    for (const [dx, dz] of NEIGHBOURS) {
+      const nextColumn = column + dx;
+      const nextRow = row + dz;
+      if (nextColumn < 0 || nextRow < 0 || nextColumn >= grid.columns || nextRow >= grid.rows) continue;
+
+      const next = nextRow * grid.columns + nextColumn;
+      if (!grid.walkable[next] || closed[next]) continue;
+      // Never cut a corner diagonally past a blocked cell
+      if (dx !== 0 && dz !== 0 &&
+          (!grid.walkable[row * grid.columns + nextColumn] || !grid.walkable[nextRow * grid.columns + column])) {
+        continue;
+      }
+
+      const cost = costs[cell] + (dx !== 0 && dz !== 0 ? Math.SQRT2 : 1);
+      if (cost < costs[next]) {
+        costs[next] = cost;
+        cameFrom[next] = cell;
+        open.push(next, cost + heuristic(next));
+      }
+    }
+  }
+
+  if (cameFrom[goalCell] === -1) return null;
+
+  const cells: FloorPoint[] = [goal];
+  for (let cell = cameFrom[goalCell]; cell !== startCell; cell = cameFrom[cell]) {
+    cells.unshift(toPoint(grid, cell));
+  }
+
+  return [...leadIn, ...smoothPath(grid, start, cells)];
+}
@@ -0,0 +1,80 @@
+import { findNearestWalkable, hasLineOfSight, isWalkable } from './navGrid';
+import { findPath } from './pathfinding';
+import type { Vec3 } from '../exhibition';
+import type { ExhibitMarker, FloorPoint, NavGrid, NavigationTarget } from './types';
+
+// Viewing spots are tried at these angles from the preferred direction, in order
+const VIEWING_ANGLES = [0, 1, -1, 2, -2, 3, -3, 4, -4, 5, -5, 6, -6, 7, -7, 8].map(step => (step * Math.PI) / 8);
+const FRONT_ONLY_ANGLES = VIEWING_ANGLES.filter(angle => Math.abs(angle) < Math.PI / 2);
+
+const SIGHT_MARGIN = 0.3;
+
+// How close a clicked floor point may be to an obstacle before teleporting is refused
+const TELEPORT_SNAP_DISTANCE = 1;
+
+// Routes are planned on the ground floor, so a camera position higher than
+// this is on an upper floor and can only be teleported to
+const MAX_GROUND_FLOOR_EYE_HEIGHT = 2.5;
+
+/**
+ * A walk to `viewingDistance` in front of the marker, facing it. The visitor
+ * approaches from the side they are on unless the exhibit has a front; spots
+ * that are blocked or behind a wall are skipped. Returns
+ * null when no viewing spot can be reached.
+ */
+export function getViewingTarget(
+  grid: NavGrid,
+  marker: ExhibitMarker,
+  from: { x: number; z: number }
+): NavigationTarget | null {
+  const [x, y, z] = marker.position;
+  const preferred = marker.facing ?? [from.x - x, from.z - z];
+  const baseAngle = Math.hypot(...preferred) < 0.001 ? Math.PI / 2 : Math.atan2(preferred[1], preferred[0]);
+  const angles = marker.facing ? FRONT_ONLY_ANGLES : VIEWING_ANGLES;
+
+  for (const offset of angles) {
+    const angle = baseAngle + offset;
+    const spot: FloorPoint = [
+      x + Math.cos(angle) * marker.viewingDistance,
+      z + Math.sin(angle) * marker.viewingDistance
+    ];
+    // Screens hang on walls, so sight is checked to just in front of the marker
+    const front: FloorPoint = [x + Math.cos(angle) * SIGHT_MARGIN, z + Math.sin(angle) * SIGHT_MARGIN];
+    if (!isWalkable(grid, ...spot) || !hasLineOfSight(grid, spot, front)) continue;
+
+    const waypoints = findPath(grid, [from.x, from.z], spot);
+    if (waypoints) {
+      return { mode: 'walk', waypoints, lookAt: [x, y, z] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A jump to a clicked point on a floor, platform, step or ramp. Points on the
+ * ground floor are nudged out of any obstacle's clearance.
+ */
+export function getTeleportTarget(grid: NavGrid, x: number, y: number, z: number): NavigationTarget | null {
+  // Raised floors are not on the plan, so the visitor lands exactly where they clicked
+  const spot = y > 0 ? ([x, z] as FloorPoint) : findNearestWalkable(grid, x, z, TELEPORT_SNAP_DISTANCE);
+  return spot && { mode: 'teleport', waypoints: [spot], height: y };
+}
+
+/**
+ * A walk to a camera position authored in the manifest, such as a tour stop,
+ * facing `lookAt`. The visitor arrives at their own eye height on whatever
+ * floor is under it. Positions on an upper floor or without a walkable route
+ * are teleported to instead, so a misplaced stop cannot stall a tour.
+ */
+export function getRouteTarget(
+  grid: NavGrid,
+  from: { x: number; z: number },
+  [x, y, z]: Vec3,
+  lookAt: Vec3
+): NavigationTarget {
+  const waypoints = y <= MAX_GROUND_FLOOR_EYE_HEIGHT ? findPath(grid, [from.x, from.z], [x, z]) : null;
+  return waypoints
+    ? { mode: 'walk', waypoints, lookAt }
+    : { mode: 'teleport', waypoints: [[x, z]], lookAt, height: y };
+}
@@ -0,0 +1,56 @@
+import type { Vec3 } from '../exhibition';
+
+/** A point on the floor plan, as `[x, z]`. */
+export type FloorPoint = [number, number];
+
+/**
+ * The visitor's position on the floor plan. `heading` is the view direction in
+ * radians, measured from +x towards +z so it can be used as an SVG rotation.
+ */
+export interface VisitorPose {
+  x: number;
+  z: number;
+  heading: number;
+}
+
+/**
+ * Where to move the visitor. A walk follows `waypoints` in order and ends on the
+ * last one, climbing whatever stairs and ramps are underfoot; a teleport jumps
+ * straight to it and lands on the highest floor no higher than `height`, or
+ * on the visitor's own level when it is not given. `lookAt` is faced on arrival.
+ */
+export interface NavigationTarget {
+  mode: 'walk' | 'teleport';
+  waypoints: FloorPoint[];
+  lookAt?: Vec3;
+  height?: number;
+}
+
+/** Why a navigation finished: reached, given up on after making no progress, or cut short by the visitor. */
+export type NavigationEndReason = 'arrived' | 'blocked' | 'interrupted';
+
+export interface ExhibitMarker {
+  id: string;
+  title: string;
+  kind: 'exhibit' | 'screen';
+  position: Vec3;
+  /** How far in front of the exhibit the visitor stands to look at it. */
+  viewingDistance: number;
+  /** Direction the exhibit faces, for exhibits that can only be seen from the front. */
+  facing?: FloorPoint;
+}
+
+/**
+ * Cells of the exhibition floor, marking where the visitor can stand and where
+ * walls block the view. Cell `(column, row)` is centred on
+ * `originX + (column + 0.5) * cellSize`, `originZ + (row + 0.5) * cellSize`.
+ */
+export interface NavGrid {
+  originX: number;
+  originZ: number;
+  cellSize: number;
+  columns: number;
+  rows: number;
+  walkable: Uint8Array;
+  opaque: Uint8Array;
+}
@@ -0,0 +1 @@
+export { registerServiceWorker } from './registerServiceWorker';
@@ -0,0 +1,14 @@
+/**
+ * Registers the service worker that precaches the museum, so it keeps running
+ * with no network once it has loaded. The worker is only built for production;
+ * the dev server always serves fresh files.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Could not register the service worker', error);
+    });
+  });
+}
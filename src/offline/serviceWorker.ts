@@ -0,0 +1,93 @@
+// Built by plugins/precacheServiceWorker.ts, which replaces the placeholder
+// below with the cache name and every URL the museum needs
+declare const __PRECACHE_MANIFEST__: { cacheName: string; urls: string[] };
+declare const self: ServiceWorkerGlobalScope;
+
+const { cacheName, urls } = __PRECACHE_MANIFEST__;
+
+interface GltfResource {
+  uri?: string;
+}
+
+/** Buffers and images a glTF file loads alongside itself, resolved against its URL. */
+async function findGltfDependencies(url: string, response: Response): Promise<string[]> {
+  const gltf: { buffers?: GltfResource[]; images?: GltfResource[] } = await response.json();
+  return [...(gltf.buffers ?? []), ...(gltf.images ?? [])]
+    .map(resource => resource.uri)
+    .filter((uri): uri is string => !!uri && !uri.startsWith('data:'))
+    .map(uri => new URL(uri, new URL(url, self.location.origin)).pathname);
+}
+
+async function precache() {
+  const cache = await caches.open(cacheName);
+  await cache.addAll(urls);
+
+  const gltfUrls = urls.filter(url => url.endsWith('.gltf'));
+  const dependencies = await Promise.all(
+    gltfUrls.map(async url => {
+      const response = await cache.match(url);
+      return response ? findGltfDependencies(url, response) : [];
+    })
+  );
+  await cache.addAll([...new Set(dependencies.flat())]);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+// Caches left by earlier builds are dropped once this one takes over
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(names => Promise.all(names.filter(name => name !== cacheName).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * The part of a cached file asked for by a `Range` header, as a server would
+ * send it. Audio and video elements ask for ranges, and Safari refuses to play
+ * media answered with the whole file. A header naming several ranges is
+ * ignored and the whole file sent, as HTTP allows.
+ */
+async function sliceRange(response: Response, range: string): Promise<Response> {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (!match[1] && !match[2])) return response;
+
+  const body = await response.arrayBuffer();
+  const size = body.byteLength;
+  // `bytes=-500` asks for the last 500 bytes, `bytes=500-` for everything from byte 500
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const headers = new Headers(response.headers);
+  headers.set('Accept-Ranges', 'bytes');
+  headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+  headers.set('Content-Length', String(end - start + 1));
+  return new Response(body.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+}
+
+async function respond(request: Request) {
+  const cache = await caches.open(cacheName);
+  // Every page of the app is the same document
+  const cached = await cache.match(request.mode === 'navigate' ? '/index.html' : request, { ignoreSearch: true });
+  const range = request.headers.get('Range');
+  if (cached) return range ? sliceRange(cached, range) : cached;
+
+  // Anything missed by the precache is kept once it has been fetched
+  const response = await fetch(request);
+  // Partial responses to range requests cannot be cached
+  if (response.status === 200) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(respond(request));
+});
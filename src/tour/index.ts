@@ -0,0 +1 @@
+export { useTour, type TourState } from './useTour';
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TourDefinition, TourStopDefinition } from '../exhibition';
+import { audioMixer } from '../audio';
+
+// Ducks the room ambience while a stop is narrated
+const NARRATION_ID = 'tour-narration';
+
+export interface TourState {
+  tour: TourDefinition;
+  stopIndex: number;
+  /** Moving to the current stop, or standing at it while its text is shown and narrated. */
+  phase: 'travelling' | 'dwelling';
+  isPaused: boolean;
+}
+
+interface TourCallbacks {
+  /** Move the visitor to a stop; the caller reports back with `arrive()`. */
+  onTravel: (stop: TourStopDefinition) => void;
+  /** Stop moving the visitor because the tour was paused or ended. */
+  onHalt: () => void;
+}
+
+/**
+ * Plays a guided tour: travels to each stop, waits there for its dwell time and
+ * narration, then moves on. Pausing keeps the remaining dwell time; resuming a
+ * stop that was not reached yet routes to it again from wherever the visitor is.
+ */
+export function useTour({ onTravel, onHalt }: TourCallbacks) {
+  const [state, setState] = useState<TourState | null>(null);
+  const callbacks = useRef({ onTravel, onHalt });
+  const dwell = useRef({ remaining: 0, narrationDone: true });
+  const narration = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    callbacks.current = { onTravel, onHalt };
+  }, [onTravel, onHalt]);
+
+  // Timers and audio events read the latest state through this ref
+  const latest = useRef(state);
+  useEffect(() => {
+    latest.current = state;
+  }, [state]);
+
+  const end = useCallback(() => {
+    setState(null);
+    callbacks.current.onHalt();
+  }, []);
+
+  const goTo = useCallback((stopIndex: number) => {
+    const current = latest.current;
+    if (!current) return;
+    if (stopIndex >= current.tour.stops.length) {
+      end();
+    } else {
+      setState({ ...current, stopIndex: Math.max(0, stopIndex), phase: 'travelling', isPaused: false });
+    }
+  }, [end]);
+
+  const advanceIfDone = useCallback(() => {
+    const current = latest.current;
+    if (!current || current.isPaused || current.phase !== 'dwelling') return;
+    if (dwell.current.remaining > 0 || !dwell.current.narrationDone) return;
+    goTo(current.stopIndex + 1);
+  }, [goTo]);
+
+  const tour = state?.tour;
+  const stopIndex = state?.stopIndex;
+
+  // Each stop starts with its full dwell time and its own narration
+  useEffect(() => {
+    if (!tour || stopIndex === undefined) return;
+    const stop = tour.stops[stopIndex];
+    dwell.current = { remaining: stop.dwell * 1000, narrationDone: !stop.audioUrl };
+    if (!stop.audioUrl) return;
+
+    const audio = new Audio(stop.audioUrl);
+    const applyVolume = () => {
+      audio.volume = audioMixer.getOutputVolume();
+    };
+    applyVolume();
+    const unsubscribe = audioMixer.subscribe(applyVolume);
+    const handlePlay = () => audioMixer.duck(NARRATION_ID);
+    const handlePause = () => audioMixer.unduck(NARRATION_ID);
+    const handleDone = () => {
+      audioMixer.unduck(NARRATION_ID);
+      dwell.current.narrationDone = true;
+      advanceIfDone();
+    };
+    const handleError = () => {
+      console.error(`Failed to load tour narration: ${stop.audioUrl}`);
+      handleDone();
+    };
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handleDone);
+    audio.addEventListener('error', handleError);
+    narration.current = audio;
+
+    return () => {
+      audio.pause();
+      unsubscribe();
+      audioMixer.unduck(NARRATION_ID);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handleDone);
+      audio.removeEventListener('error', handleError);
+      audio.removeAttribute('src');
+      audio.load();
+      narration.current = null;
+    };
+  }, [tour, stopIndex, advanceIfDone]);
+
+  useEffect(() => {
+    if (!state || state.isPaused || state.phase !== 'travelling') return;
+    callbacks.current.onTravel(state.tour.stops[state.stopIndex]);
+  }, [state]);
+
+  const isDwelling = state?.phase === 'dwelling' && !state.isPaused;
+
+  // Count down the dwell time and play the narration only while standing at the stop
+  useEffect(() => {
+    if (!isDwelling) return;
+
+    const startedAt = performance.now();
+    const timer = setTimeout(() => {
+      dwell.current.remaining = 0;
+      advanceIfDone();
+    }, dwell.current.remaining);
+
+    const audio = narration.current;
+    if (audio && !dwell.current.narrationDone) {
+      audio.play().catch(error => console.warn('Tour narration was blocked:', error));
+    }
+
+    return () => {
+      clearTimeout(timer);
+      dwell.current.remaining = Math.max(0, dwell.current.remaining - (performance.now() - startedAt));
+      audio?.pause();
+    };
+  }, [isDwelling, stopIndex, advanceIfDone]);
+
+  const start = useCallback((tour: TourDefinition) => {
+    setState({ tour, stopIndex: 0, phase: 'travelling', isPaused: false });
+  }, []);
+
+  const pause = useCallback(() => {
+    if (!latest.current || latest.current.isPaused) return;
+    setState(current => current && { ...current, isPaused: true });
+    callbacks.current.onHalt();
+  }, []);
+
+  const resume = useCallback(() => {
+    setState(current => (current?.isPaused ? { ...current, isPaused: false } : current));
+  }, []);
+
+  /** Reports that the visitor reached the stop the tour is travelling to. */
+  const arrive = useCallback(() => {
+    setState(current =>
+      current && !current.isPaused && current.phase === 'travelling' ? { ...current, phase: 'dwelling' } : current
+    );
+  }, []);
+
+  const next = useCallback(() => {
+    if (latest.current) goTo(latest.current.stopIndex + 1);
+  }, [goTo]);
+
+  const previous = useCallback(() => {
+    if (latest.current) goTo(latest.current.stopIndex - 1);
+  }, [goTo]);
+
+  return { state, start, pause, resume, arrive, next, previous, end };
+}
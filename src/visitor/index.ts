@@ -0,0 +1,9 @@
+export { useVisitorSettings } from './useVisitorSettings';
+export {
+  EYE_HEIGHT_PRESETS,
+  MAX_EYE_HEIGHT,
+  MIN_EYE_HEIGHT,
+  visitorSettings,
+  type EyeHeightPreset,
+  type VisitorSettings
+} from './visitorSettings';
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { visitorSettings } from './visitorSettings';
+
+/** The visitor's eye height; re-renders when it is changed. */
+export function useVisitorSettings() {
+  return useSyncExternalStore(visitorSettings.subscribe, visitorSettings.get);
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import type { MessageKey } from '../i18n';
+
+export interface VisitorSettings {
+  /** Height of the camera above the visitor's feet, in metres. */
+  eyeHeight: number;
+}
+
+export type EyeHeightPreset = 'standing' | 'seated';
+
+export const MIN_EYE_HEIGHT = 1;
+export const MAX_EYE_HEIGHT = 2;
+
+// Seated is the eye level of a visitor in a wheelchair
+export const EYE_HEIGHT_PRESETS: { preset: EyeHeightPreset; label: MessageKey; eyeHeight: number }[] = [
+  { preset: 'standing', label: 'visitorSettings.standing', eyeHeight: 1.7 },
+  { preset: 'seated', label: 'visitorSettings.seated', eyeHeight: 1.2 }
+];
+
+const STORAGE_KEY = 'ita-museum.visitor';
+const DEFAULT_SETTINGS: VisitorSettings = { eyeHeight: EYE_HEIGHT_PRESETS[0].eyeHeight };
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function loadSettings(): VisitorSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      eyeHeight:
+        typeof stored?.eyeHeight === 'number'
+          ? THREE.MathUtils.clamp(stored.eyeHeight, MIN_EYE_HEIGHT, MAX_EYE_HEIGHT)
+          : DEFAULT_SETTINGS.eyeHeight
+    };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+let settings = loadSettings();
+
+/** The visitor's body, as chosen in the controls panel and saved in localStorage. */
+export const visitorSettings = {
+  get(): VisitorSettings {
+    return settings;
+  },
+
+  setEyeHeight(eyeHeight: number) {
+    settings = { eyeHeight: THREE.MathUtils.clamp(eyeHeight, MIN_EYE_HEIGHT, MAX_EYE_HEIGHT) };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Could not save the visitor settings:', error);
+    }
+    listeners.forEach(listener => listener());
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -1,9 +1,18 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { precacheServiceWorker } from './plugins/precacheServiceWorker';
+import exhibition from './src/data/exhibition.json';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    precacheServiceWorker({
+      worker: 'src/offline/serviceWorker.ts',
+      manifest: exhibition,
+      include: ['/manifest.webmanifest', '/icon.svg'],
+    }),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },